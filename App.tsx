@@ -4,8 +4,13 @@ import {
   AssistantView, 
   ImageGeneratorView, 
   VoiceSelectionView,
+  HistoryView,
 } from './components';
+import ApiKeySettings from './components/ApiKeySettings';
 import { View, voices, VoiceOption } from './types';
+import { providers, getActiveProviderId, setActiveProvider, ProviderId } from './services/providers';
+import { configureScheduler, getSchedulerConfig, MAX_CONCURRENCY } from './services/requestScheduler';
+import { onOpenApiKeySettings } from './services/apiKey';
 import { 
   SettingsIcon, 
   PlusIcon, 
@@ -15,15 +20,17 @@ import {
   DownloadIcon,
   SoundWaveIcon,
   CameraIcon,
+  HistoryIcon,
 } from './components/icons';
 
 
 type Theme = 'light' | 'dark';
 type AssistantMode = 'voice' | 'camera';
+type GeneratorView = View.Images | View.Voice | View.History;
 export type NavigationTarget = 'camera' | 'voice' | 'images' | 'spark' | 'close';
 
 const App: React.FC = () => {
-  const [activeGenerator, setActiveGenerator] = useState<View.Images | View.Voice | null>(null);
+  const [activeGenerator, setActiveGenerator] = useState<GeneratorView | null>(null);
   const [assistantMode, setAssistantMode] = useState<AssistantMode>('voice');
   const [isFabMenuOpen, setIsFabMenuOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -32,6 +39,8 @@ const App: React.FC = () => {
   const [installPromptEvent, setInstallPromptEvent] = useState<any>(null);
   const [assistantKey, setAssistantKey] = useState(0); // Key to force AssistantView remount
   const [allVoices, setAllVoices] = useState<VoiceOption[]>(voices);
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProviderId);
+  const [maxConcurrent, setMaxConcurrent] = useState<number>(() => getSchedulerConfig().maxConcurrent);
   const settingsRef = useRef<HTMLDivElement>(null);
   const fabRef = useRef<HTMLDivElement>(null);
 
@@ -62,6 +71,9 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Views ask for the settings menu when a request needs a (different) API key
+  useEffect(() => onOpenApiKeySettings(() => setIsSettingsOpen(true)), []);
+
   // Click outside handler for settings menu
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -111,7 +123,17 @@ const App: React.FC = () => {
     setIsSettingsOpen(false);
   };
 
-  const openGenerator = (generator: View.Images | View.Voice) => {
+  const handleProviderChange = (id: ProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  const handleMaxConcurrentChange = (value: number) => {
+    configureScheduler({ maxConcurrent: value });
+    setMaxConcurrent(value);
+  };
+
+  const openGenerator = (generator: GeneratorView) => {
     setActiveGenerator(generator);
     setIsFabMenuOpen(false);
   };
@@ -180,6 +202,45 @@ const App: React.FC = () => {
                           </span>
                         </button>
 
+                        {/* AI Backend Selector */}
+                        <div className="px-2 py-1">
+                          <span className="block text-xs font-semibold text-slate-500 dark:text-gray-400 mb-1">AI Backend</span>
+                          <div className="grid grid-cols-2 gap-1">
+                            {Object.values(providers).map(provider => (
+                              <button
+                                key={provider.id}
+                                onClick={() => handleProviderChange(provider.id)}
+                                title={provider.description}
+                                className={`px-3 py-1.5 text-xs rounded-md transition whitespace-nowrap ${providerId === provider.id ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700'}`}
+                              >
+                                {provider.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+
+                        {/* Bring-your-own API Key */}
+                        <div className="px-2 py-1 w-64">
+                          <span className="block text-xs font-semibold text-slate-500 dark:text-gray-400 mb-1">API Key</span>
+                          <ApiKeySettings />
+                        </div>
+
+                        {/* Request Concurrency Selector */}
+                        <div className="px-2 py-1">
+                          <span className="block text-xs font-semibold text-slate-500 dark:text-gray-400 mb-1">Parallel requests</span>
+                          <div className="grid grid-cols-4 gap-1">
+                            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(value => (
+                              <button
+                                key={value}
+                                onClick={() => handleMaxConcurrentChange(value)}
+                                className={`px-3 py-1.5 text-xs rounded-md transition ${maxConcurrent === value ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700'}`}
+                              >
+                                {value}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+
                         {/* Install App Button */}
                         {installPromptEvent && (
                           <button
@@ -256,6 +317,18 @@ const App: React.FC = () => {
                 </div>
                 <span className="text-slate-800 dark:text-white font-semibold text-sm whitespace-nowrap">Image Generator</span>
               </button>
+
+              {/* History Button */}
+              <button
+                onClick={() => openGenerator(View.History)}
+                className={`flex items-center gap-3 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm pl-2 pr-4 py-2 rounded-full hover:bg-slate-200/90 dark:hover:bg-gray-700/90 transition-all duration-300 border shadow-lg transform hover:scale-105 ${activeGenerator === View.History ? 'border-slate-800 dark:border-white' : 'border-slate-300 dark:border-gray-700'}`}
+                aria-label="History"
+              >
+                <div className="bg-slate-100 dark:bg-gray-900 p-2 rounded-full">
+                    <HistoryIcon className="h-5 w-5 text-slate-800 dark:text-white" />
+                </div>
+                <span className="text-slate-800 dark:text-white font-semibold text-sm whitespace-nowrap">History</span>
+              </button>
               
             </div>
             
@@ -285,6 +358,7 @@ const App: React.FC = () => {
               </button>
               <main className="mt-16 md:mt-8 relative">
                 {activeGenerator === View.Images && <ImageGeneratorView />}
+                {activeGenerator === View.History && <HistoryView />}
                 {activeGenerator === View.Voice && <VoiceSelectionView currentVoice={selectedVoice} onVoiceSelect={handleVoiceSelect} />}
               </main>
             </div>
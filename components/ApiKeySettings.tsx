@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    KeyAccess,
+    KeyFeature,
+    keyFeatureLabels,
+    getStoredApiKey,
+    getStoredKeyAccess,
+    saveApiKey,
+    clearApiKey,
+    validateApiKey,
+} from '../services/apiKey';
+import { toGenerationError, isCancellation } from '../services/errors';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import { SpinnerIcon } from './icons';
+
+interface ApiKeySettingsProps {
+    className?: string;
+}
+
+// Masks all but the last four characters so the saved key can be recognised but not read.
+const maskKey = (key: string) => `••••••••${key.slice(-4)}`;
+
+const accessBadge = (value: boolean | null) => {
+    if (value === true) return { label: 'Available', className: 'text-green-600 dark:text-green-400' };
+    if (value === false) return { label: 'No access', className: 'text-red-500 dark:text-red-400' };
+    return { label: 'Unknown', className: 'text-slate-500 dark:text-gray-400' };
+};
+
+// Paste-your-own-key form: validates the key with a free metadata call, stores it in this
+// browser and shows which features it unlocks.
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({ className = '' }) => {
+    const [savedKey, setSavedKey] = useState<string | null>(getStoredApiKey);
+    const [access, setAccess] = useState<KeyAccess | null>(getStoredKeyAccess);
+    const [draft, setDraft] = useState('');
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    const checkKey = async (key: string) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        setIsChecking(true);
+        setError(null);
+        try {
+            const result = await validateApiKey(key, controller.signal);
+            saveApiKey(key, result);
+            setSavedKey(key);
+            setAccess(result);
+            setDraft('');
+        } catch (err) {
+            if (isCancellation(err)) return;
+            setError(toGenerationError(err).message);
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsChecking(false);
+            }
+        }
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const key = draft.trim();
+        if (!key) {
+            setError('Paste a Gemini API key first.');
+            return;
+        }
+        checkKey(key);
+    };
+
+    const handleRemove = () => {
+        abortRef.current?.abort();
+        clearApiKey();
+        setSavedKey(null);
+        setAccess(null);
+        setIsChecking(false);
+        setError(null);
+    };
+
+    return (
+        <div className={className}>
+            {savedKey && (
+                <div className="flex items-center justify-between gap-2 mb-2">
+                    <code className="text-xs text-slate-700 dark:text-gray-300">{maskKey(savedKey)}</code>
+                    <div className="flex gap-1">
+                        <button
+                            onClick={() => checkKey(savedKey)}
+                            disabled={isChecking}
+                            className="px-2 py-1 text-xs rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition disabled:opacity-50"
+                        >
+                            Re-check
+                        </button>
+                        <button
+                            onClick={handleRemove}
+                            className="px-2 py-1 text-xs rounded-md bg-slate-200 dark:bg-gray-900 text-red-600 dark:text-red-400 hover:bg-slate-300 dark:hover:bg-gray-700 transition"
+                        >
+                            Remove
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <form onSubmit={handleSave} className="flex gap-1">
+                <input
+                    type="password"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder={savedKey ? 'Replace with another key' : 'Paste your Gemini API key'}
+                    autoComplete="off"
+                    spellCheck={false}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-xs rounded-md bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-slate-500 dark:focus:ring-gray-500 focus:outline-none"
+                />
+                <button
+                    type="submit"
+                    disabled={isChecking || !draft.trim()}
+                    className="px-3 py-1.5 text-xs rounded-md bg-slate-800 text-white dark:bg-white dark:text-black font-bold transition disabled:opacity-50 flex items-center"
+                >
+                    {isChecking ? <SpinnerIcon /> : 'Save'}
+                </button>
+            </form>
+
+            <GenerationErrorNotice error={error} className="text-xs" />
+
+            {savedKey && access && !isChecking && (
+                <ul className="mt-2 space-y-0.5">
+                    {(Object.keys(keyFeatureLabels) as KeyFeature[]).map(feature => {
+                        const badge = accessBadge(access.features[feature]);
+                        return (
+                            <li key={feature} className="flex justify-between text-xs">
+                                <span className="text-slate-600 dark:text-gray-300">{keyFeatureLabels[feature]}</span>
+                                <span className={badge.className}>{badge.label}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <p className="mt-2 text-[11px] text-slate-500 dark:text-gray-400">
+                Stored only in this browser. Veo also needs billing enabled.{' '}
+                <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-cyan-600 dark:text-cyan-400 hover:underline">Get a key</a>
+            </p>
+        </div>
+    );
+};
+
+export default ApiKeySettings;
@@ -1,11 +1,12 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 // FIX: Aliased `Blob` to `GenAIBlob` to resolve name collision with the browser's native `Blob` type.
-import { GoogleGenAI, LiveServerMessage, Modality, Blob as GenAIBlob, FunctionDeclaration, Type } from '@google/genai';
+import { LiveServerMessage, Modality, Blob as GenAIBlob, FunctionDeclaration, Type } from '@google/genai';
 import { VoiceOption, voices } from '../types';
 import ParticleRing from './ParticleRing';
 import { CopyIcon, CheckIcon } from './icons';
 import { NavigationTarget } from '../App';
+import { createLiveClient } from '../services/apiConfig';
 
 // FIX: Add type definitions for Web Speech API to resolve TypeScript errors.
 // These types are part of the Web Speech API and may not be present in all TypeScript lib configurations.
@@ -346,12 +347,10 @@ const AssistantView: React.FC<AssistantViewProps> = ({ selectedVoiceDetails, mod
             }
         }
         
-        if (!process.env.API_KEY) {
-            setError("API_KEY environment variable is not set");
-            return stopSession();
-        }
-        
         try {
+            // Fails fast on a missing key (direct mode) or an unreachable proxy, before asking for devices.
+            const ai = await createLiveClient();
+
             let stream: MediaStream;
             if (mode === 'camera') {
                 stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: { facingMode: 'environment' } });
@@ -392,7 +391,6 @@ const AssistantView: React.FC<AssistantViewProps> = ({ selectedVoiceDetails, mod
                 }, 1000 / FRAME_RATE);
             }
 
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
             inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
             outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { isolateSubject } from '../services/geminiService';
+import { CutOutSettings, DEFAULT_CUT_OUT_SETTINGS, cutOutSubject } from '../services/backgroundRemoval';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
+import { downloadImage } from '../services/imageMetadata';
+import { PreparedImage } from '../services/imagePreprocess';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import { SpinnerIcon, DownloadIcon } from './icons';
+
+interface BackgroundRemoverProps {
+    // Data URL of the image to cut the subject out of.
+    image: string;
+    // File name for the download, without the extension.
+    downloadName: string;
+    // Offered when the view can take the cut-out on to a later edit, labelled `useLabel`.
+    onUseCutOut?: (cutOut: PreparedImage) => void;
+    useLabel?: string;
+    onClose: () => void;
+}
+
+// Grey-and-white squares behind the result, so transparent areas look transparent.
+const CHECKERBOARD: React.CSSProperties = {
+    backgroundImage: 'repeating-conic-gradient(#cbd5e1 0% 25%, #ffffff 0% 50%)',
+    backgroundSize: '16px 16px',
+};
+
+// Removes the background of `image` as soon as it opens: one request for the subject on a
+// chroma-key screen, then keying in the browser, where tolerance and edge feathering can be
+// adjusted without asking the model again.
+const BackgroundRemover: React.FC<BackgroundRemoverProps> = ({ image, downloadName, onUseCutOut, useLabel = 'Use as reference', onClose }) => {
+    const [screen, setScreen] = useState<string | null>(null);
+    const [cutOut, setCutOut] = useState<string | null>(null);
+    const [settings, setSettings] = useState<CutOutSettings>(DEFAULT_CUT_OUT_SETTINGS);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<GenerationError | null>(null);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    // Only the latest keying pass may set the result when the sliders move quickly.
+    const keyingRef = useRef(0);
+
+    const requestScreen = async () => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsLoading(true);
+        setError(null);
+        setScreen(null);
+        setCutOut(null);
+
+        try {
+            const [header, data] = image.split(',');
+            const mimeType = header.substring(header.indexOf(':') + 1, header.indexOf(';'));
+            setScreen(await isolateSubject({ data, mimeType }, { signal: controller.signal, onRetryWait: setRetryWait }));
+        } catch (err) {
+            if (isCancellation(err)) return;
+            setError(toGenerationError(err));
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsLoading(false);
+                setRetryWait(null);
+            }
+        }
+    };
+
+    useEffect(() => {
+        requestScreen();
+        return () => abortRef.current?.abort();
+    }, [image]);
+
+    useEffect(() => {
+        if (!screen) return;
+        const pass = ++keyingRef.current;
+        cutOutSubject(screen, image, settings)
+            .then(result => {
+                if (pass === keyingRef.current) setCutOut(result);
+            })
+            .catch(err => {
+                if (pass === keyingRef.current) setError(toGenerationError(err));
+            });
+    }, [screen, settings]);
+
+    const handleUse = () => {
+        if (!cutOut || !onUseCutOut) return;
+        onUseCutOut({ data: cutOut.split(',')[1], mimeType: 'image/png', previewUrl: cutOut });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white">Remove background</h3>
+                <div className="rounded-lg overflow-hidden flex items-center justify-center min-h-[240px]" style={CHECKERBOARD}>
+                    {cutOut ? (
+                        <img src={cutOut} alt="Cut-out" className="max-w-full max-h-[50vh] object-contain" />
+                    ) : isLoading && (
+                        <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/80 text-sm text-slate-700">
+                            <SpinnerIcon />
+                            Cutting out the subject...
+                        </div>
+                    )}
+                </div>
+                {screen && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <label className="text-sm text-slate-800 dark:text-white">
+                            Tolerance
+                            <input
+                                type="range"
+                                min={0.05}
+                                max={0.6}
+                                step={0.05}
+                                value={settings.tolerance}
+                                onChange={(e) => setSettings({ ...settings, tolerance: Number(e.target.value) })}
+                                className="w-full mt-1"
+                            />
+                        </label>
+                        <label className="text-sm text-slate-800 dark:text-white">
+                            Soften edges
+                            <input
+                                type="range"
+                                min={0}
+                                max={4}
+                                step={1}
+                                value={settings.feather}
+                                onChange={(e) => setSettings({ ...settings, feather: Number(e.target.value) })}
+                                className="w-full mt-1"
+                            />
+                        </label>
+                    </div>
+                )}
+                <RetryWaitNotice wait={retryWait} />
+                <GenerationErrorNotice error={error} onRetry={requestScreen} />
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors">
+                        {cutOut ? 'Close' : 'Cancel'}
+                    </button>
+                    {onUseCutOut && (
+                        <button
+                            onClick={handleUse}
+                            disabled={!cutOut}
+                            className="px-4 py-2 text-sm font-semibold rounded-lg bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                        >
+                            {useLabel}
+                        </button>
+                    )}
+                    <button
+                        onClick={() => cutOut && downloadImage(cutOut, downloadName)}
+                        disabled={!cutOut}
+                        className="flex items-center gap-2 px-4 py-2 text-sm font-bold rounded-lg bg-slate-800 dark:bg-white text-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                        <DownloadIcon className="h-4 w-4" />
+                        Download PNG
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BackgroundRemover;
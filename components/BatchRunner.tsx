@@ -0,0 +1,318 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AspectRatio } from '../types';
+import { generateImageSlots, ImageSlotResult } from '../services/geminiService';
+import { parseBatchFile, slugify } from '../services/batchJob';
+import { StylePreset, DEFAULT_STYLE_PRESET_ID, getStylePreset, styleReferencePayload } from '../services/stylePresets';
+import { createZip, ZipFile } from '../services/zip';
+import { textToBytes } from '../services/binary';
+import { GenerationMetadata, describeGeneration, embedMetadata, extensionFor, mimeTypeOf } from '../services/imageMetadata';
+import { saveToHistory } from '../services/historyStore';
+import { ImageFitOptions } from '../services/imageFit';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
+import RetryWaitNotice from './RetryWaitNotice';
+import { SpinnerIcon, DownloadIcon, ResetIcon } from './icons';
+
+type RowState =
+    | { status: 'queued' }
+    | { status: 'running' }
+    // Every requested image's outcome, so a row that got only some of its images says so.
+    | { status: 'done'; results: ImageSlotResult[]; metadata: GenerationMetadata }
+    | { status: 'failed'; error: GenerationError }
+    | { status: 'cancelled' };
+
+interface BatchJobRow {
+    prompt: string;
+    style: StylePreset;
+    // Rows without a ratio use the runner's default when they run.
+    aspectRatio?: AspectRatio;
+    count: number;
+    state: RowState;
+}
+
+interface BatchRunnerProps {
+    // Turns a row's topic into the prompt sent to the model, as the single-thumbnail flow does.
+    buildPrompt: (topic: string, style: StylePreset, aspectRatio: AspectRatio) => string;
+    fitFor: (aspectRatio: AspectRatio) => ImageFitOptions;
+    // For rows that don't name a ratio.
+    defaultAspectRatio: AspectRatio;
+}
+
+const statusLabels: Record<RowState['status'], string> = {
+    queued: 'Queued',
+    running: 'Generating…',
+    done: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+};
+
+const imagesOf = (results: ImageSlotResult[]) =>
+    results.flatMap(result => 'image' in result ? [{ variant: result.index + 1, image: result.image }] : []);
+
+const failuresOf = (results: ImageSlotResult[]) =>
+    results.flatMap(result => 'error' in result ? [{ variant: result.index + 1, error: result.error }] : []);
+
+// Runs a CSV/JSON list of prompts one row at a time and exports everything as a ZIP with
+// a manifest, for producing many thumbnails without babysitting each one.
+const BatchRunner: React.FC<BatchRunnerProps> = ({ buildPrompt, fitFor, defaultAspectRatio }) => {
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [rows, setRows] = useState<BatchJobRow[]>([]);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    const ratioOf = (row: BatchJobRow) => row.aspectRatio ?? defaultAspectRatio;
+
+    const updateRow = (index: number, state: RowState) => {
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, state } : row));
+    };
+
+    const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onloadend = () => {
+            try {
+                const parsed = parseBatchFile(file.name, reader.result as string);
+                setRows(parsed.map(row => ({
+                    prompt: row.prompt,
+                    style: row.style ?? getStylePreset(DEFAULT_STYLE_PRESET_ID),
+                    aspectRatio: row.aspectRatio,
+                    count: row.count ?? 1,
+                    state: { status: 'queued' },
+                })));
+                setFileName(file.name);
+                setParseError(null);
+            } catch (err: any) {
+                setRows([]);
+                setFileName(null);
+                setParseError(err.message);
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    // Works through the given rows in order. Each row's images are requested together, and
+    // a failed row or image doesn't stop the ones after it. A row that already got some of its
+    // images keeps them and only asks again, with the same settings, for the missing ones.
+    const runRows = async (indices: number[]) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const previousStates = new Map(indices.map(index => [index, rows[index].state]));
+
+        setIsRunning(true);
+        setRows(prev => prev.map((row, i) => indices.includes(i) ? { ...row, state: { status: 'queued' } } : row));
+        try {
+            for (const index of indices) {
+                const { prompt, style, count } = rows[index];
+                const previous = previousStates.get(index)!;
+                const kept = previous.status === 'done' ? previous.results.filter(result => 'image' in result) : [];
+                // Zero-based variants still to make.
+                const missing = previous.status === 'done'
+                    ? failuresOf(previous.results).map(({ variant }) => variant - 1)
+                    : Array.from({ length: count }, (_, i) => i);
+                const aspectRatio = previous.status === 'done' ? previous.metadata.aspectRatio as AspectRatio : ratioOf(rows[index]);
+                const fullPrompt = previous.status === 'done' ? previous.metadata.fullPrompt : buildPrompt(prompt, style, aspectRatio);
+                const fit = previous.status === 'done' ? previous.metadata.fit : fitFor(aspectRatio);
+                const styleReference = styleReferencePayload(style);
+                const references = styleReference ? [styleReference] : [];
+                const settings = { prompt, fullPrompt, style: style.name, aspectRatio, fit };
+                updateRow(index, { status: 'running' });
+                try {
+                    const fresh = await generateImageSlots(fullPrompt, missing.length, aspectRatio, undefined, references, (result) => {
+                        if ('image' in result) {
+                            saveToHistory({ kind: 'thumbnail', image: result.image, ...settings, references });
+                        }
+                    }, {
+                        signal: controller.signal,
+                        onRetryWait: setRetryWait,
+                        fit,
+                    });
+                    // Cancel has already marked the row.
+                    if (controller.signal.aborted) return;
+                    const results = [...kept, ...fresh.map(result => ({ ...result, index: missing[result.index] }))]
+                        .sort((a, b) => a.index - b.index);
+                    const failures = failuresOf(results);
+                    if (failures.length === results.length) {
+                        updateRow(index, { status: 'failed', error: failures[0].error });
+                    } else {
+                        updateRow(index, { status: 'done', results, metadata: describeGeneration(settings) });
+                    }
+                } catch (err) {
+                    if (isCancellation(err)) return;
+                    updateRow(index, { status: 'failed', error: toGenerationError(err) });
+                } finally {
+                    setRetryWait(null);
+                }
+            }
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsRunning(false);
+            }
+        }
+    };
+
+    const handleCancel = () => {
+        abortRef.current?.abort();
+        setRows(prev => prev.map(row => row.state.status === 'running' ? { ...row, state: { status: 'cancelled' } } : row));
+        setIsRunning(false);
+        setRetryWait(null);
+    };
+
+    const handleExport = () => {
+        const files: ZipFile[] = [];
+        const manifest = {
+            source: fileName,
+            exportedAt: new Date().toISOString(),
+            files: [] as { file: string; row: number; prompt: string; style: string; aspectRatio: AspectRatio; variant: number }[],
+            failed: [] as { row: number; prompt: string; variant?: number; error: string }[],
+        };
+        rows.forEach((row, index) => {
+            const rowNumber = index + 1;
+            if (row.state.status === 'failed') {
+                manifest.failed.push({ row: rowNumber, prompt: row.prompt, error: row.state.error.message });
+            }
+            if (row.state.status !== 'done') return;
+            const { metadata, results } = row.state;
+            imagesOf(results).forEach(({ variant, image }) => {
+                const file = `${String(rowNumber).padStart(3, '0')}-${slugify(row.prompt)}-${variant}.${extensionFor(mimeTypeOf(image))}`;
+                files.push({ name: file, data: embedMetadata(image, metadata) });
+                manifest.files.push({ file, row: rowNumber, prompt: row.prompt, style: row.style.name, aspectRatio: ratioOf(row), variant });
+            });
+            failuresOf(results).forEach(({ variant, error }) => {
+                manifest.failed.push({ row: rowNumber, prompt: row.prompt, variant, error: error.message });
+            });
+        });
+        files.push({ name: 'manifest.json', data: textToBytes(JSON.stringify(manifest, null, 2)) });
+
+        const url = URL.createObjectURL(createZip(files));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `thumbnails-${Date.now()}.zip`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const pendingIndices = rows.flatMap((row, i) => row.state.status === 'queued' || row.state.status === 'cancelled' ? [i] : []);
+    const failedIndices = rows.flatMap((row, i) =>
+        row.state.status === 'failed' || (row.state.status === 'done' && failuresOf(row.state.results).length > 0) ? [i] : []);
+    const finishedCount = rows.filter(row => row.state.status === 'done' || row.state.status === 'failed').length;
+    const imageCount = rows.reduce((total, row) => total + (row.state.status === 'done' ? imagesOf(row.state.results).length : 0), 0);
+
+    return (
+        <div className="bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700 flex flex-col space-y-4">
+            <div>
+                <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">Prompt list (CSV or JSON)</label>
+                <div className="relative w-full h-20 border-2 border-dashed border-slate-400 dark:border-gray-700 rounded-lg flex items-center justify-center text-slate-500 dark:text-gray-400 hover:border-slate-800 dark:hover:border-white hover:text-slate-800 dark:hover:text-white transition cursor-pointer bg-slate-100 dark:bg-gray-900">
+                    <label htmlFor="batch-file-upload" className="absolute inset-0 flex items-center justify-center cursor-pointer">
+                        <span>{fileName ?? 'Click to upload'}</span>
+                    </label>
+                    <input id="batch-file-upload" type="file" className="hidden" onChange={handleFileUpload} accept=".csv,.json,text/csv,application/json" disabled={isRunning} />
+                </div>
+                <p className="mt-2 text-xs text-slate-500 dark:text-gray-400">
+                    Columns: <code>prompt</code> (required), <code>style</code> (any style preset name), <code>ratio</code> ({Object.values(AspectRatio).join(', ')}; defaults to {defaultAspectRatio}) and <code>count</code> (1–4).
+                </p>
+                {parseError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{parseError}</p>}
+            </div>
+
+            {rows.length > 0 && (
+                <>
+                    <div className="flex items-center justify-between text-sm text-slate-600 dark:text-gray-300">
+                        <span>{finishedCount} of {rows.length} rows finished · {imageCount} images</span>
+                        {isRunning && <SpinnerIcon />}
+                    </div>
+                    <div className="w-full h-2 rounded-full bg-slate-200 dark:bg-gray-800 overflow-hidden">
+                        <div className="h-full bg-slate-800 dark:bg-white transition-all" style={{ width: `${(finishedCount / rows.length) * 100}%` }} />
+                    </div>
+
+                    <ul className="divide-y divide-slate-200 dark:divide-gray-700 max-h-96 overflow-y-auto">
+                        {rows.map((row, index) => (
+                            <li key={index} className="flex items-center gap-3 py-2">
+                                <span className="w-8 text-xs text-slate-500 dark:text-gray-400">{index + 1}</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-slate-800 dark:text-white truncate" title={row.prompt}>{row.prompt}</p>
+                                    <p className="text-xs text-slate-500 dark:text-gray-400">
+                                        {row.style.name} · {ratioOf(row)} · {row.count} {row.count === 1 ? 'image' : 'images'}
+                                    </p>
+                                    {row.state.status === 'failed' && (
+                                        <p className="text-xs text-red-600 dark:text-red-400">{row.state.error.message}</p>
+                                    )}
+                                    {row.state.status === 'done' && failuresOf(row.state.results).map(({ variant, error }) => (
+                                        <p key={variant} className="text-xs text-red-600 dark:text-red-400">Image {variant}: {error.message}</p>
+                                    ))}
+                                </div>
+                                {row.state.status === 'done' ? (
+                                    <div className="flex items-center gap-1">
+                                        {failuresOf(row.state.results).length > 0 && (
+                                            <span className="text-xs font-semibold text-red-600 dark:text-red-400 mr-1">
+                                                {imagesOf(row.state.results).length}/{row.state.results.length} done
+                                            </span>
+                                        )}
+                                        {imagesOf(row.state.results).map(({ variant, image }) => (
+                                            <img key={variant} src={image} alt={`Row ${index + 1} result ${variant}`} className="w-12 h-12 object-cover rounded" />
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <span className={`text-xs font-semibold ${row.state.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-gray-400'}`}>
+                                        {statusLabels[row.state.status]}
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    <RetryWaitNotice wait={retryWait} />
+
+                    <div className="flex items-center gap-2">
+                        {isRunning ? (
+                            <button
+                                onClick={handleCancel}
+                                className="w-full bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        ) : (
+                            <>
+                                <button
+                                    onClick={() => runRows(pendingIndices)}
+                                    disabled={pendingIndices.length === 0}
+                                    className="w-full bg-slate-800 dark:bg-white hover:bg-slate-700 dark:hover:bg-gray-200 text-white dark:text-black font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {finishedCount > 0 && pendingIndices.length > 0 ? 'Resume' : 'Run batch'}
+                                </button>
+                                {failedIndices.length > 0 && (
+                                    <button
+                                        onClick={() => runRows(failedIndices)}
+                                        className="flex-shrink-0 flex items-center gap-2 bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                                    >
+                                        <ResetIcon />
+                                        Retry failed
+                                    </button>
+                                )}
+                                <button
+                                    onClick={handleExport}
+                                    disabled={imageCount === 0}
+                                    className="flex-shrink-0 flex items-center gap-2 bg-cyan-600 dark:bg-cyan-500 hover:bg-cyan-700 dark:hover:bg-cyan-600 text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <DownloadIcon />
+                                    ZIP
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BatchRunner;
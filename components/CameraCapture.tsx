@@ -0,0 +1,93 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createCanvas } from '../services/canvas';
+import { SpinnerIcon } from './icons';
+
+interface CameraCaptureProps {
+    onCapture: (photo: File) => void;
+    onClose: () => void;
+}
+
+type FacingMode = 'environment' | 'user';
+
+// Live camera preview with a shutter button. Opens the back camera first, as the assistant's
+// camera mode does, and can switch to the front one.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+    const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+    const [isReady, setIsReady] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+        setIsReady(false);
+        setError(null);
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode } })
+            .then(async mediaStream => {
+                stream = mediaStream;
+                if (cancelled || !videoRef.current) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                videoRef.current.srcObject = mediaStream;
+                await videoRef.current.play();
+                setIsReady(true);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                console.error("Error opening the camera:", err);
+                setError(err?.name === 'NotAllowedError'
+                    ? "Camera access was denied. Allow it in your browser's site settings to take a photo."
+                    : "No camera could be opened on this device.");
+            });
+
+        return () => {
+            cancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [facingMode]);
+
+    const handleCapture = () => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth) return;
+        const { canvas, ctx } = createCanvas(video.videoWidth, video.videoHeight);
+        ctx.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
+        canvas.toBlob(blob => {
+            if (blob) {
+                onCapture(new File([blob], `photo-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+            }
+        }, 'image/jpeg', 0.95);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="relative w-full max-w-lg bg-white dark:bg-gray-800 rounded-xl overflow-hidden border border-slate-200 dark:border-gray-700 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+                <div className="relative bg-black aspect-[4/3] flex items-center justify-center">
+                    <video ref={videoRef} playsInline muted className={`w-full h-full object-contain ${facingMode === 'user' ? '-scale-x-100' : ''}`} />
+                    {!isReady && !error && <div className="absolute text-white"><SpinnerIcon /></div>}
+                    {error && <p className="absolute p-6 text-center text-sm text-white">{error}</p>}
+                </div>
+                <div className="flex items-center justify-between gap-2 p-4">
+                    <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleCapture}
+                        disabled={!isReady}
+                        className="w-14 h-14 rounded-full border-4 border-slate-800 dark:border-white bg-white hover:bg-slate-200 transition-colors disabled:opacity-40"
+                        aria-label="Take photo"
+                    />
+                    <button
+                        onClick={() => setFacingMode(facingMode === 'environment' ? 'user' : 'environment')}
+                        className="px-4 py-2 text-sm rounded-lg bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors"
+                    >
+                        Flip
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CameraCapture;
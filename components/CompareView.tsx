@@ -0,0 +1,304 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+export interface CompareItem {
+    label: string;
+    image: string;
+}
+
+// 'wipe' drags a divider between two images, 'side-by-side' shows several with one shared
+// zoom, and 'toggle' flips between two images in place so small changes jump out.
+type CompareMode = 'wipe' | 'side-by-side' | 'toggle';
+
+const modeLabels: Record<CompareMode, string> = {
+    wipe: 'Slider',
+    'side-by-side': 'Side by side',
+    toggle: 'Toggle',
+};
+
+// The source plus up to four variations.
+const MAX_SIDE_BY_SIDE = 5;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+
+interface Zoom {
+    scale: number;
+    // Pan offset in pixels of one panel.
+    x: number;
+    y: number;
+}
+
+const NO_ZOOM: Zoom = { scale: 1, x: 0, y: 0 };
+
+// Shapes closer than this (relative) are treated as the same, so they can be overlaid.
+const RATIO_TOLERANCE = 0.01;
+
+interface CompareViewProps {
+    // The first item is the "before" image by default (usually the uploaded source).
+    items: CompareItem[];
+    onClose: () => void;
+}
+
+const chipClass = (selected: boolean) =>
+    `px-3 py-1.5 text-xs rounded-md transition ${selected ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`;
+
+const CompareView: React.FC<CompareViewProps> = ({ items, onClose }) => {
+    const [mode, setMode] = useState<CompareMode>('wipe');
+    const [beforeIndex, setBeforeIndex] = useState(0);
+    const [afterIndex, setAfterIndex] = useState(Math.min(1, items.length - 1));
+    const [wipePosition, setWipePosition] = useState(0.5);
+    const [showBefore, setShowBefore] = useState(false);
+    const [sideBySide, setSideBySide] = useState<number[]>(items.slice(0, MAX_SIDE_BY_SIDE).map((_, i) => i));
+    const [zoom, setZoom] = useState<Zoom>(NO_ZOOM);
+    // Width / height of each image once it has loaded, keyed by its data URL.
+    const [ratios, setRatios] = useState<Record<string, number>>({});
+    const gridRef = useRef<HTMLDivElement>(null);
+    const panStartRef = useRef<{ pointerX: number; pointerY: number; zoom: Zoom } | null>(null);
+
+    // The list can shrink while open (e.g. a regenerate starts), so fall back to items that exist.
+    const before = items[beforeIndex] ?? items[0];
+    const after = items[afterIndex] ?? items[items.length - 1];
+    const visiblePanels = sideBySide.filter(i => i < items.length);
+    // A variation cropped or padded to another ratio can't be lined up with its source, so the
+    // slider and toggle fall back to showing the pair side by side.
+    const beforeRatio = ratios[before.image];
+    const afterRatio = ratios[after.image];
+    const shapesDiffer = beforeRatio !== undefined && afterRatio !== undefined && Math.abs(beforeRatio - afterRatio) / afterRatio > RATIO_TOLERANCE;
+
+    const recordRatio = (image: string) => (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const { naturalWidth, naturalHeight } = e.currentTarget;
+        setRatios(prev => prev[image] !== undefined ? prev : { ...prev, [image]: naturalWidth / naturalHeight });
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            if (e.key === ' ' && mode === 'toggle') {
+                e.preventDefault();
+                setShowBefore(prev => !prev);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [mode, onClose]);
+
+    // Wheel zoom is attached natively: React's wheel listener is passive, so it can't stop
+    // the page behind the overlay from scrolling.
+    useEffect(() => {
+        const grid = gridRef.current;
+        if (!grid) return;
+        const handleWheel = (e: WheelEvent) => {
+            const panel = (e.target as HTMLElement).closest<HTMLElement>('[data-compare-panel]');
+            if (!panel) return;
+            e.preventDefault();
+            const rect = panel.getBoundingClientRect();
+            // The cursor relative to the panel centre, where the transform origin is.
+            const px = e.clientX - rect.left - rect.width / 2;
+            const py = e.clientY - rect.top - rect.height / 2;
+            setZoom(prev => {
+                const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.scale * Math.exp(-e.deltaY * 0.002)));
+                if (scale === MIN_ZOOM) return NO_ZOOM;
+                // Keep the point under the cursor where it is.
+                const ratio = scale / prev.scale;
+                return { scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+            });
+        };
+        grid.addEventListener('wheel', handleWheel, { passive: false });
+        return () => grid.removeEventListener('wheel', handleWheel);
+    }, [mode]);
+
+    const handleWipePointer = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.type === 'pointerdown') {
+            e.currentTarget.setPointerCapture(e.pointerId);
+        } else if (!e.currentTarget.hasPointerCapture(e.pointerId)) {
+            return;
+        }
+        const rect = e.currentTarget.getBoundingClientRect();
+        setWipePosition(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+    };
+
+    const handleWipeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const step = e.shiftKey ? 0.1 : 0.02;
+        if (e.key === 'ArrowLeft') setWipePosition(prev => Math.max(0, prev - step));
+        if (e.key === 'ArrowRight') setWipePosition(prev => Math.min(1, prev + step));
+    };
+
+    const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (zoom.scale === 1) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        panStartRef.current = { pointerX: e.clientX, pointerY: e.clientY, zoom };
+    };
+
+    const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = panStartRef.current;
+        if (!start || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        setZoom({ ...start.zoom, x: start.zoom.x + e.clientX - start.pointerX, y: start.zoom.y + e.clientY - start.pointerY });
+    };
+
+    const handlePanEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+        panStartRef.current = null;
+    };
+
+    const zoomBy = (factor: number) => {
+        setZoom(prev => {
+            const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.scale * factor));
+            return scale === MIN_ZOOM ? NO_ZOOM : { scale, x: prev.x * (scale / prev.scale), y: prev.y * (scale / prev.scale) };
+        });
+    };
+
+    const toggleSideBySide = (index: number) => {
+        setSideBySide(prev => {
+            if (prev.includes(index)) return prev.length > 1 ? prev.filter(i => i !== index) : prev;
+            return prev.length < MAX_SIDE_BY_SIDE ? [...prev, index].sort((a, b) => a - b) : prev;
+        });
+    };
+
+    const pairPicker = (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600 dark:text-gray-300">
+            {([['Before', beforeIndex, setBeforeIndex], ['After', afterIndex, setAfterIndex]] as const).map(([label, value, setValue]) => (
+                <label key={label} className="flex items-center gap-2">
+                    {label}
+                    <select
+                        value={value}
+                        onChange={(e) => setValue(Number(e.target.value))}
+                        className="bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-700 rounded-md px-2 py-1 text-slate-800 dark:text-white"
+                    >
+                        {items.map((item, i) => <option key={i} value={i}>{item.label}</option>)}
+                    </select>
+                </label>
+            ))}
+        </div>
+    );
+
+    const mismatchedPair = (
+        <>
+            <p className="text-xs text-amber-600 dark:text-amber-400 text-center">These two images have different shapes, so they can't be overlaid pixel for pixel. They are shown side by side instead.</p>
+            <div className="grid grid-cols-2 gap-2 w-full">
+                {[before, after].map((item, i) => (
+                    <div key={i} className="relative flex justify-center">
+                        <img src={item.image} alt={item.label} onLoad={recordRatio(item.image)} className="block max-w-full max-h-[70vh] object-contain rounded-lg" />
+                        <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{item.label}</span>
+                    </div>
+                ))}
+            </div>
+        </>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fade-in p-4" onClick={onClose}>
+            <div
+                className="relative w-full max-w-5xl max-h-[95vh] flex flex-col bg-white dark:bg-gray-800 rounded-xl overflow-hidden border border-slate-200 dark:border-gray-700 shadow-2xl"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-b border-slate-200 dark:border-gray-700">
+                    <div className="flex gap-2">
+                        {(Object.keys(modeLabels) as CompareMode[]).map(option => (
+                            <button key={option} onClick={() => setMode(option)} className={chipClass(mode === option)}>
+                                {modeLabels[option]}
+                            </button>
+                        ))}
+                    </div>
+                    <button onClick={onClose} className="text-2xl text-slate-500 hover:text-slate-800 dark:text-gray-400 dark:hover:text-white transition-colors" aria-label="Close">&times;</button>
+                </div>
+
+                <div className="flex-1 overflow-auto p-4 flex flex-col items-center gap-4">
+                    {mode === 'wipe' && (
+                        <>
+                            {pairPicker}
+                            {shapesDiffer ? mismatchedPair : (
+                                <div
+                                    className="relative select-none cursor-ew-resize touch-none focus:outline-none focus:ring-2 focus:ring-slate-500"
+                                    onPointerDown={handleWipePointer}
+                                    onPointerMove={handleWipePointer}
+                                    onKeyDown={handleWipeKeyDown}
+                                    role="slider"
+                                    tabIndex={0}
+                                    aria-label="Before and after divider"
+                                    aria-valuemin={0}
+                                    aria-valuemax={100}
+                                    aria-valuenow={Math.round(wipePosition * 100)}
+                                >
+                                    <img src={after.image} alt={after.label} onLoad={recordRatio(after.image)} className="block max-w-full max-h-[70vh] rounded-lg" draggable={false} />
+                                    <img
+                                        src={before.image}
+                                        alt={before.label}
+                                        onLoad={recordRatio(before.image)}
+                                        className="absolute inset-0 w-full h-full object-contain rounded-lg"
+                                        style={{ clipPath: `inset(0 ${(1 - wipePosition) * 100}% 0 0)` }}
+                                        draggable={false}
+                                    />
+                                    <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${wipePosition * 100}%` }}>
+                                        <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white text-black text-xs font-bold flex items-center justify-center shadow">‹›</div>
+                                    </div>
+                                    <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{before.label}</span>
+                                    <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{after.label}</span>
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {mode === 'toggle' && (
+                        <>
+                            {pairPicker}
+                            {shapesDiffer ? mismatchedPair : (
+                                <>
+                                    <button onClick={() => setShowBefore(!showBefore)} className="relative focus:outline-none" aria-label="Switch between before and after">
+                                        <img src={after.image} alt={after.label} onLoad={recordRatio(after.image)} className="block max-w-full max-h-[70vh] rounded-lg" />
+                                        {/* Kept loaded while hidden so its shape is known before the first switch. */}
+                                        <img src={before.image} alt={before.label} onLoad={recordRatio(before.image)} className={`absolute inset-0 w-full h-full object-contain rounded-lg ${showBefore ? '' : 'invisible'}`} />
+                                        <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{showBefore ? before.label : after.label}</span>
+                                    </button>
+                                    <p className="text-xs text-slate-500 dark:text-gray-400">Click the image or press Space to switch.</p>
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {mode === 'side-by-side' && (
+                        <>
+                            <div className="flex flex-wrap items-center justify-center gap-2">
+                                {items.map((item, i) => (
+                                    <button key={i} onClick={() => toggleSideBySide(i)} className={chipClass(sideBySide.includes(i))}>
+                                        {item.label}
+                                    </button>
+                                ))}
+                                <span className="mx-2 h-5 w-px bg-slate-300 dark:bg-gray-700" />
+                                <button onClick={() => zoomBy(1 / 1.5)} className={chipClass(false)} aria-label="Zoom out">−</button>
+                                <span className="text-xs w-12 text-center text-slate-600 dark:text-gray-300">{Math.round(zoom.scale * 100)}%</span>
+                                <button onClick={() => zoomBy(1.5)} className={chipClass(false)} aria-label="Zoom in">+</button>
+                                <button onClick={() => setZoom(NO_ZOOM)} disabled={zoom.scale === 1} className={`${chipClass(false)} disabled:opacity-40`}>Reset</button>
+                            </div>
+                            <div ref={gridRef} className={`grid gap-2 w-full ${visiblePanels.length > 4 ? 'grid-cols-3' : visiblePanels.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                                {visiblePanels.map(i => (
+                                    <div
+                                        key={i}
+                                        data-compare-panel
+                                        className={`relative overflow-hidden rounded-lg bg-slate-200 dark:bg-gray-900 h-[35vh] touch-none ${zoom.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                                        onPointerDown={handlePanStart}
+                                        onPointerMove={handlePanMove}
+                                        onPointerUp={handlePanEnd}
+                                        onPointerCancel={handlePanEnd}
+                                    >
+                                        <img
+                                            src={items[i].image}
+                                            alt={items[i].label}
+                                            className="w-full h-full object-contain select-none"
+                                            style={{ transform: `translate(${zoom.x}px, ${zoom.y}px) scale(${zoom.scale})` }}
+                                            draggable={false}
+                                        />
+                                        <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">{items[i].label}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-xs text-slate-500 dark:text-gray-400">Scroll to zoom and drag to pan; every panel follows.</p>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CompareView;
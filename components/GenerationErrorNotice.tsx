@@ -0,0 +1,120 @@
+import React from 'react';
+import { GenerationError, GenerationErrorKind } from '../services/errors';
+import { openApiKeySettings } from '../services/apiKey';
+
+interface GenerationErrorNoticeProps {
+    error: string | GenerationError | null;
+    onRetry?: () => void;
+    onRephrase?: () => void;
+    onSelectKey?: () => void;
+    className?: string;
+}
+
+type RecoveryAction = 'retry' | 'rephrase' | 'select-key';
+
+interface Recovery {
+    title: string;
+    hint: string;
+    actions: RecoveryAction[];
+}
+
+const recoveries: Record<GenerationErrorKind, Recovery> = {
+    'missing-key': {
+        title: 'No API key configured',
+        hint: 'Add your Gemini API key in Settings, or switch Settings → AI Backend to Local (offline).',
+        actions: ['select-key'],
+    },
+    'invalid-key': {
+        title: 'API key rejected',
+        hint: 'Select a valid key. Video needs a key with Veo access and billing enabled.',
+        actions: ['select-key'],
+    },
+    quota: {
+        title: 'Quota reached',
+        hint: 'This key has hit its rate limit. Wait a minute and try again, or use a different key.',
+        actions: ['retry', 'select-key'],
+    },
+    safety: {
+        title: 'Blocked by safety filters',
+        hint: 'Rephrase the prompt to avoid people, brands or content the model may refuse, then try again.',
+        actions: ['rephrase', 'retry'],
+    },
+    unavailable: {
+        title: 'Service temporarily unavailable',
+        hint: 'The AI service is overloaded or down. Try again in a little while.',
+        actions: ['retry'],
+    },
+    network: {
+        title: 'Connection problem',
+        hint: 'Check your internet connection and try again.',
+        actions: ['retry'],
+    },
+    timeout: {
+        title: 'Request timed out',
+        hint: 'Try again, or simplify the prompt so it finishes faster.',
+        actions: ['retry', 'rephrase'],
+    },
+    empty: {
+        title: 'Nothing was returned',
+        hint: 'The model finished without a result. Try again or adjust the prompt.',
+        actions: ['retry', 'rephrase'],
+    },
+    cancelled: {
+        title: 'Cancelled',
+        hint: 'The request was stopped before it finished.',
+        actions: ['retry'],
+    },
+    unknown: {
+        title: 'Something went wrong',
+        hint: 'Try again. If it keeps failing, check the console for details.',
+        actions: ['retry'],
+    },
+};
+
+const actionLabels: Record<RecoveryAction, string> = {
+    retry: 'Try again',
+    rephrase: 'Edit prompt',
+    'select-key': 'Select API key',
+};
+
+const GenerationErrorNotice: React.FC<GenerationErrorNoticeProps> = ({ error, onRetry, onRephrase, onSelectKey = openApiKeySettings, className = '' }) => {
+    if (!error) return null;
+
+    // Plain strings are validation messages from the view itself.
+    if (typeof error === 'string') {
+        return <p className={`text-red-500 dark:text-red-400 text-sm mt-2 ${className}`}>{error}</p>;
+    }
+
+    const recovery = recoveries[error.kind];
+    const handlers: Record<RecoveryAction, (() => void) | undefined> = {
+        retry: onRetry,
+        rephrase: onRephrase,
+        'select-key': onSelectKey,
+    };
+    const details = [
+        error.status && `HTTP ${error.status}`,
+        error.blockReason && `block: ${error.blockReason}`,
+        error.finishReason && `finish: ${error.finishReason}`,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div role="alert" className={`mt-2 p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-sm ${className}`}>
+            <p className="font-bold text-red-600 dark:text-red-400">{recovery.title}</p>
+            <p className="mt-1 text-slate-700 dark:text-gray-300">{recovery.hint}</p>
+            <p className="mt-1 text-xs text-slate-500 dark:text-gray-400">{error.message}{details && ` (${details})`}</p>
+            <div className="flex flex-wrap gap-2 mt-2">
+                {recovery.actions.filter(action => handlers[action]).map(action => (
+                    <button
+                        key={action}
+                        onClick={handlers[action]}
+                        className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-800 text-white dark:bg-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors"
+                    >
+                        {actionLabels[action]}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default GenerationErrorNotice;
@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { generateImage, expandImage } from '../services/geminiService';
+import { HistoryEntry, HistoryOperation, listHistory, addHistoryEntry, setHistoryFavourite, deleteHistoryEntry, getSourceImage, historyReferences, historyOperation } from '../services/historyStore';
+import { UploadedImagePayload, ReferenceImagePayload } from '../services/providers';
+import { RetryWait } from '../services/requestScheduler';
+import { downloadImage } from '../services/imageMetadata';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import { PhotoIcon, SpinnerIcon, EyeIcon, DownloadIcon, TrashIcon, ResetIcon, StarIcon } from './icons';
+
+const kindLabels: Record<HistoryEntry['kind'], string> = {
+    image: 'Image',
+    thumbnail: 'Thumbnail',
+};
+
+// Shown next to the kind for anything that isn't a plain generation.
+const operationLabels: Record<HistoryOperation, string | null> = {
+    generate: null,
+    expand: 'Expanded',
+    'chat-edit': 'Chat edit',
+};
+
+// Operations Re-run knows how to repeat. A chat edit's masks and per-step references aren't
+// stored, so it can't be replayed faithfully.
+const rerunnableOperations: HistoryOperation[] = ['generate', 'expand'];
+
+const canRerun = (entry: HistoryEntry) => rerunnableOperations.includes(historyOperation(entry));
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Every image the generators have produced, newest first. Nothing here is lost by
+// closing a generator or reloading the page.
+const HistoryView: React.FC = () => {
+    const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+    const [query, setQuery] = useState('');
+    const [favouritesOnly, setFavouritesOnly] = useState(false);
+    const [rerunningId, setRerunningId] = useState<string | null>(null);
+    const [error, setError] = useState<string | GenerationError | null>(null);
+    const [failedEntry, setFailedEntry] = useState<HistoryEntry | null>(null);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
+    const [viewingImage, setViewingImage] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        listHistory()
+            .then(setEntries)
+            .catch(err => {
+                console.error("Error loading history:", err);
+                setEntries([]);
+                setError("Could not open the history database. Private browsing modes may block it.");
+            });
+        return () => abortRef.current?.abort();
+    }, []);
+
+    const handleToggleFavourite = async (entry: HistoryEntry) => {
+        const favourite = !entry.favourite;
+        setEntries(prev => prev && prev.map(e => e.id === entry.id ? { ...e, favourite } : e));
+        try {
+            await setHistoryFavourite(entry.id, favourite);
+        } catch (err) {
+            console.error("Error updating favourite:", err);
+            setEntries(prev => prev && prev.map(e => e.id === entry.id ? { ...e, favourite: entry.favourite } : e));
+        }
+    };
+
+    const handleDelete = async (entry: HistoryEntry) => {
+        if (!window.confirm("Delete this image from history?")) return;
+        try {
+            await deleteHistoryEntry(entry.id);
+            setEntries(prev => prev && prev.filter(e => e.id !== entry.id));
+        } catch (err) {
+            console.error("Error deleting history entry:", err);
+            setError("Could not delete the image. Please try again.");
+        }
+    };
+
+    const handleDownload = (entry: HistoryEntry) => {
+        const { prompt, fullPrompt, style, aspectRatio, fit, model, createdAt } = entry;
+        downloadImage(entry.image, `spark-${entry.kind}-${entry.createdAt}`, { prompt, fullPrompt, style, aspectRatio, fit, model, createdAt });
+    };
+
+    // Repeats the entry's operation with the same settings and source images.
+    const runOperation = (entry: HistoryEntry, sourceImage: UploadedImagePayload | undefined, references: ReferenceImagePayload[], signal: AbortSignal): Promise<string> => {
+        const options = { signal, onRetryWait: setRetryWait };
+        switch (historyOperation(entry)) {
+            case 'generate':
+                return generateImage(entry.fullPrompt, entry.aspectRatio, sourceImage, references, 0, { ...options, fit: entry.fit });
+            case 'expand':
+                if (!sourceImage) {
+                    return Promise.reject(new GenerationError("The source image for this result is no longer stored."));
+                }
+                return expandImage(sourceImage, entry.aspectRatio, entry.prompt, options);
+            default:
+                return Promise.reject(new GenerationError("This image can't be re-run."));
+        }
+    };
+
+    // Sends the exact same request again (operation, prompt, ratio, fit and source images)
+    // and adds the result to the top of the history.
+    const handleRerun = async (entry: HistoryEntry) => {
+        if (!canRerun(entry)) return;
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        setRerunningId(entry.id);
+        setError(null);
+        setFailedEntry(null);
+        try {
+            const storedReferences = historyReferences(entry);
+            const [sourceImage, referenceImages] = await Promise.all([
+                entry.sourceImageHash ? getSourceImage(entry.sourceImageHash) : undefined,
+                Promise.all(storedReferences.map(reference => getSourceImage(reference.hash))),
+            ]);
+            if (entry.sourceImageHash && !sourceImage) {
+                throw new GenerationError("The source image for this result is no longer stored.");
+            }
+            if (referenceImages.some(image => !image)) {
+                throw new GenerationError("A reference image for this result is no longer stored.");
+            }
+            const references = referenceImages.map((image, i) => ({ ...image!, role: storedReferences[i].role }));
+            const image = await runOperation(entry, sourceImage, references, controller.signal);
+            const saved = await addHistoryEntry({
+                kind: entry.kind,
+                operation: entry.operation,
+                image,
+                prompt: entry.prompt,
+                fullPrompt: entry.fullPrompt,
+                style: entry.style,
+                aspectRatio: entry.aspectRatio,
+                fit: entry.fit,
+                sourceImage,
+                references,
+            });
+            setEntries(prev => prev && [saved, ...prev]);
+        } catch (err) {
+            if (isCancellation(err)) return;
+            setError(toGenerationError(err));
+            setFailedEntry(entry);
+        } finally {
+            if (!controller.signal.aborted) {
+                setRerunningId(null);
+                setRetryWait(null);
+            }
+        }
+    };
+
+    const handleCancelRerun = () => {
+        abortRef.current?.abort();
+        setRerunningId(null);
+        setRetryWait(null);
+    };
+
+    const normalizedQuery = query.trim().toLowerCase();
+    const visibleEntries = (entries ?? []).filter(entry =>
+        (!favouritesOnly || entry.favourite) &&
+        (!normalizedQuery || entry.prompt.toLowerCase().includes(normalizedQuery))
+    );
+
+    return (
+        <div className="animate-fade-in">
+            <h2 className="text-3xl font-bold text-center mb-6 text-slate-800 dark:text-white">History</h2>
+
+            <div className="max-w-5xl mx-auto flex flex-col sm:flex-row gap-2 mb-4">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search by prompt…"
+                    className="flex-1 px-4 py-2 rounded-lg bg-white/60 dark:bg-gray-900/60 border border-slate-300 dark:border-gray-700 text-slate-800 dark:text-white focus:ring-2 focus:ring-slate-500 dark:focus:ring-gray-500 focus:outline-none"
+                />
+                <button
+                    onClick={() => setFavouritesOnly(!favouritesOnly)}
+                    className={`flex items-center justify-center gap-2 px-4 py-2 text-sm rounded-lg transition ${favouritesOnly ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}
+                >
+                    <StarIcon filled={favouritesOnly} />
+                    Favourites
+                </button>
+            </div>
+
+            <div className="max-w-5xl mx-auto">
+                {rerunningId && (
+                    <div className="flex items-center justify-center gap-2 text-sm text-slate-600 dark:text-gray-300 mb-2">
+                        <SpinnerIcon />
+                        Re-running…
+                        <button onClick={handleCancelRerun} className="underline hover:no-underline">Cancel</button>
+                    </div>
+                )}
+                <RetryWaitNotice wait={retryWait} />
+                <GenerationErrorNotice error={error} onRetry={failedEntry ? () => handleRerun(failedEntry) : undefined} className="mb-4" />
+            </div>
+
+            {entries === null ? (
+                <div className="flex items-center justify-center min-h-[300px]"><SpinnerIcon /></div>
+            ) : visibleEntries.length === 0 ? (
+                <div className="flex flex-col items-center justify-center text-slate-500 dark:text-gray-400 min-h-[300px]">
+                    <PhotoIcon />
+                    <p className="mt-4">
+                        {entries.length === 0 ? 'Images you generate will be saved here' : 'No images match your search'}
+                    </p>
+                </div>
+            ) : (
+                <div className="max-w-5xl mx-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {visibleEntries.map(entry => (
+                        <div key={entry.id} className="bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm rounded-xl border border-slate-200 dark:border-gray-700 overflow-hidden flex flex-col">
+                            <div className="relative bg-slate-200 dark:bg-gray-900 aspect-video">
+                                <img src={entry.image} alt={entry.prompt} className="w-full h-full object-contain" loading="lazy" />
+                                <button
+                                    onClick={() => handleToggleFavourite(entry)}
+                                    className={`absolute top-2 left-2 bg-black/50 hover:bg-black/80 rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white ${entry.favourite ? 'text-yellow-400' : 'text-white'}`}
+                                    aria-label={entry.favourite ? 'Remove from favourites' : 'Add to favourites'}
+                                >
+                                    <StarIcon filled={entry.favourite} />
+                                </button>
+                                <div className="absolute top-2 right-2 flex items-center gap-2">
+                                    <button
+                                        onClick={() => setViewingImage(entry.image)}
+                                        className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
+                                        aria-label="View image"
+                                    >
+                                        <EyeIcon className="h-5 w-5" />
+                                    </button>
+                                    <button
+                                        onClick={() => handleDownload(entry)}
+                                        className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
+                                        aria-label="Download image"
+                                    >
+                                        <DownloadIcon />
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="p-3 flex flex-col gap-2 flex-1">
+                                <p className="text-sm text-slate-800 dark:text-white line-clamp-2" title={entry.prompt}>
+                                    {entry.prompt || <span className="italic text-slate-500 dark:text-gray-400">No prompt</span>}
+                                </p>
+                                <p className="text-xs text-slate-500 dark:text-gray-400">
+                                    {kindLabels[entry.kind]}{operationLabels[historyOperation(entry)] && ` · ${operationLabels[historyOperation(entry)]}`} · {entry.style} · {entry.aspectRatio} · {entry.model}
+                                    <br />
+                                    {formatDate(entry.createdAt)}
+                                </p>
+                                <div className="flex gap-2 mt-auto">
+                                    <button
+                                        onClick={() => handleRerun(entry)}
+                                        disabled={rerunningId !== null || !canRerun(entry)}
+                                        title={canRerun(entry) ? undefined : "This kind of image can't be re-run"}
+                                        className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-800 text-white dark:bg-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {rerunningId === entry.id ? <SpinnerIcon /> : <ResetIcon />}
+                                        Re-run
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(entry)}
+                                        className="px-3 py-1.5 rounded-md bg-slate-200 dark:bg-gray-800 text-red-600 dark:text-red-400 hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors"
+                                        aria-label="Delete from history"
+                                    >
+                                        <TrashIcon className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {viewingImage && (
+                <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 animate-fade-in" onClick={() => setViewingImage(null)}>
+                    <div className="relative p-4" onClick={(e) => e.stopPropagation()}>
+                        <img src={viewingImage} alt="Enlarged view" className="max-w-[90vw] max-h-[90vh] rounded-lg shadow-2xl object-contain"/>
+                        <button onClick={() => setViewingImage(null)} className="absolute -top-2 -right-2 bg-white text-black rounded-full w-10 h-10 flex items-center justify-center text-2xl font-bold leading-none pb-1 hover:bg-gray-200 transition-transform transform hover:scale-110">
+                            &times;
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HistoryView;
@@ -1,5 +1,14 @@
-import React, { useState, useRef } from 'react';
-import { PlusIcon } from './icons';
+import React, { useState, useRef, useEffect } from 'react';
+import { editImageWithChat } from '../services/geminiService';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import MaskEditor from './MaskEditor';
+import ImageInput from './ImageInput';
+import ReferenceImagesInput, { nextReferenceRole } from './ReferenceImagesInput';
+import { ReferenceImage, MAX_REFERENCE_IMAGES, REFERENCE_UPLOAD, referenceRoleLabels, toReferencePayloads } from '../services/referenceImages';
+import { SendIcon, SpinnerIcon, ResetIcon } from './icons';
 
 interface UploadedImage {
     data: string; // raw base64
@@ -7,107 +16,320 @@ interface UploadedImage {
     previewUrl: string; // data URL for <img>
 }
 
+// Every image in the session is a node in a tree: the original is the root and each edit
+// adds a child of the version it was made from, so editing an earlier version starts a
+// new branch instead of discarding later work.
+interface ChatVersion {
+    id: number;
+    parentId: number | null;
+    image: UploadedImage;
+    instruction?: string;
+    references?: ReferenceImage[];
+    // Alpha mask the edit was confined to, if any.
+    mask?: string;
+}
+
+interface PendingEdit {
+    instruction: string;
+    references?: ReferenceImage[];
+    mask?: string;
+}
+
 interface ImageChatViewProps {
     initialImage: UploadedImage;
-    onClose: (instructions?: string, refImage?: UploadedImage) => void;
+    // Called with the chosen version and the edit instructions that led to it, oldest first,
+    // or with nothing if the user closed without picking one.
+    onClose: (selectedImage?: UploadedImage, instructions?: string[]) => void;
 }
 
+const toUploadedImage = (dataUrl: string): UploadedImage => ({
+    data: dataUrl.split(',')[1],
+    mimeType: dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';')),
+    previewUrl: dataUrl,
+});
+
 const ImageChatView: React.FC<ImageChatViewProps> = ({ initialImage, onClose }) => {
+    const [versions, setVersions] = useState<ChatVersion[]>([{ id: 0, parentId: null, image: initialImage }]);
+    const [currentId, setCurrentId] = useState(0);
+    // Versions left by Undo, most recent last, so Redo can walk back down the same branch.
+    const [redoStack, setRedoStack] = useState<number[]>([]);
     const [userInput, setUserInput] = useState('');
-    const [referenceImage, setReferenceImage] = useState<UploadedImage | null>(null);
-    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [references, setReferences] = useState<ReferenceImage[]>([]);
+    const [isMasking, setIsMasking] = useState(false);
+    const [mask, setMask] = useState<string | null>(null);
+    const [pendingEdit, setPendingEdit] = useState<PendingEdit | null>(null);
+    const [failedEdit, setFailedEdit] = useState<PendingEdit | null>(null);
+    const [error, setError] = useState<string | GenerationError | null>(null);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
     const textInputRef = useRef<HTMLInputElement>(null);
+    const threadEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const nextIdRef = useRef(1);
+
+    const byId = (id: number) => versions.find(version => version.id === id)!;
+    const childrenOf = (id: number | null) => versions.filter(version => version.parentId === id);
+
+    // The thread on screen: the path from the original down to the current version.
+    const thread: ChatVersion[] = [];
+    for (let version: ChatVersion | undefined = byId(currentId); version; version = version.parentId === null ? undefined : byId(version.parentId)) {
+        thread.unshift(version);
+    }
+
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [currentId, pendingEdit]);
+
+    // A mask is painted over one specific version, so it goes whenever the current version changes.
+    const showVersion = (id: number) => {
+        setCurrentId(id);
+        setMask(null);
+    };
+
+    const selectVersion = (id: number) => {
+        showVersion(id);
+        setRedoStack([]);
+        setError(null);
+    };
 
-    const handleReferenceUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                const fullDataUrl = reader.result as string;
-                const mimeType = fullDataUrl.substring(fullDataUrl.indexOf(':') + 1, fullDataUrl.indexOf(';'));
-                const base64Data = fullDataUrl.split(',')[1];
-                setReferenceImage({ data: base64Data, mimeType, previewUrl: fullDataUrl });
-            };
-            reader.readAsDataURL(file);
+    const runEdit = async (edit: PendingEdit) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const baseId = currentId;
+        const base = byId(baseId).image;
+        setPendingEdit(edit);
+        setFailedEdit(null);
+        setError(null);
+        try {
+            const edited = await editImageWithChat(
+                { data: base.data, mimeType: base.mimeType },
+                edit.instruction,
+                toReferencePayloads(edit.references ?? []),
+                { signal: controller.signal, onRetryWait: setRetryWait, mask: edit.mask }
+            );
+            const id = nextIdRef.current++;
+            setVersions(prev => [...prev, { id, parentId: baseId, image: toUploadedImage(edited), ...edit }]);
+            showVersion(id);
+            setRedoStack([]);
+        } catch (err) {
+            if (isCancellation(err)) return;
+            setError(toGenerationError(err));
+            setFailedEdit(edit);
+        } finally {
+            if (!controller.signal.aborted) {
+                setPendingEdit(null);
+                setRetryWait(null);
+            }
         }
     };
 
-    const handleDone = () => {
-        onClose(userInput.trim(), referenceImage ?? undefined);
+    const handleSend = () => {
+        const instruction = userInput.trim();
+        if (!instruction || pendingEdit) return;
+        setUserInput('');
+        setReferences([]);
+        setIsMasking(false);
+        setMask(null);
+        runEdit({ instruction, references: references.length > 0 ? references : undefined, mask: mask ?? undefined });
+    };
+
+    const handleCancelEdit = () => {
+        abortRef.current?.abort();
+        setPendingEdit(null);
+        setRetryWait(null);
+    };
+
+    const handleUndo = () => {
+        const parentId = byId(currentId).parentId;
+        if (parentId === null) return;
+        setRedoStack(prev => [...prev, currentId]);
+        showVersion(parentId);
+    };
+
+    const handleRedo = () => {
+        const nextId = redoStack[redoStack.length - 1];
+        if (nextId === undefined) return;
+        setRedoStack(prev => prev.slice(0, -1));
+        showVersion(nextId);
+    };
+
+    // Switching to a sibling branch shows that branch's most recent edit.
+    const latestLeaf = (id: number): number => {
+        const children = childrenOf(id);
+        return children.length === 0 ? id : latestLeaf(children[children.length - 1].id);
+    };
+
+    const handleSwitchBranch = (version: ChatVersion, step: number) => {
+        const siblings = childrenOf(version.parentId);
+        const index = siblings.findIndex(sibling => sibling.id === version.id);
+        const target = siblings[(index + step + siblings.length) % siblings.length];
+        selectVersion(latestLeaf(target.id));
     };
 
     const handleInputContainerClick = (e: React.MouseEvent<HTMLDivElement>) => {
-        // Prevent focusing the text input if the click is on the "Done" button
-        if ((e.target as HTMLElement).closest('button')) {
+        // Prevent focusing the text input if the click is on one of the buttons
+        if ((e.target as HTMLElement).closest('button, label')) {
             return;
         }
         textInputRef.current?.focus();
     };
 
+    const isBusy = pendingEdit !== null;
+    const canUndo = !isBusy && byId(currentId).parentId !== null;
+    const canRedo = !isBusy && redoStack.length > 0;
+
     return (
-        <div 
+        <div
             className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fade-in p-4"
             onClick={() => onClose()}
         >
-            <div 
-                className="relative w-full max-w-lg mx-auto flex flex-col bg-white dark:bg-gray-800 rounded-xl overflow-hidden max-h-[90vh] border border-slate-200 dark:border-gray-700 shadow-2xl"
+            <div
+                className="relative w-full max-w-2xl mx-auto flex flex-col bg-white dark:bg-gray-800 rounded-xl overflow-hidden max-h-[90vh] border border-slate-200 dark:border-gray-700 shadow-2xl"
                 onClick={(e) => e.stopPropagation()}
             >
                 {/* Header */}
-                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-gray-700 flex-shrink-0">
+                <div className="flex items-center justify-between gap-2 p-4 border-b border-slate-200 dark:border-gray-700 flex-shrink-0">
                     <h3 className="text-xl font-bold text-slate-800 dark:text-white">Chat Edit</h3>
-                    <button onClick={() => onClose()} className="text-2xl text-slate-500 hover:text-slate-800 dark:text-gray-400 dark:hover:text-white transition-colors">&times;</button>
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleUndo} disabled={!canUndo} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition disabled:opacity-40 disabled:cursor-not-allowed">
+                            Undo
+                        </button>
+                        <button onClick={handleRedo} disabled={!canRedo} className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition disabled:opacity-40 disabled:cursor-not-allowed">
+                            Redo
+                        </button>
+                        <button onClick={() => onClose()} className="ml-2 text-2xl text-slate-500 hover:text-slate-800 dark:text-gray-400 dark:hover:text-white transition-colors" aria-label="Close">&times;</button>
+                    </div>
                 </div>
 
-                {/* Main Content Area */}
-                <div className="flex-1 flex flex-col p-4 overflow-y-auto">
-                    <img src={initialImage.previewUrl} alt="Image to edit" className="w-full h-auto max-h-80 object-contain rounded-lg bg-slate-100 dark:bg-black/20" />
+                {/* Thread */}
+                <div className="flex-1 flex flex-col gap-4 p-4 overflow-y-auto">
+                    {thread.map(version => {
+                        const siblings = childrenOf(version.parentId);
+                        const siblingIndex = siblings.findIndex(sibling => sibling.id === version.id);
+                        const isCurrent = version.id === currentId;
+                        return (
+                            <React.Fragment key={version.id}>
+                                {version.instruction && (
+                                    <div className="self-end max-w-[80%] bg-cyan-500 text-white rounded-lg rounded-br-none px-3 py-2 text-sm">
+                                        {version.references && (
+                                            <div className="flex flex-wrap gap-2 mb-2">
+                                                {version.references.map((reference, i) => (
+                                                    <figure key={i} className="w-16">
+                                                        <img src={reference.previewUrl} alt={`${referenceRoleLabels[reference.role]} reference`} className="w-16 h-16 object-cover rounded" />
+                                                        <figcaption className="text-[10px] leading-tight mt-0.5 opacity-80 truncate">{referenceRoleLabels[reference.role]}</figcaption>
+                                                    </figure>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {version.instruction}
+                                        {version.mask && <span className="block mt-1 text-xs opacity-80">Masked edit</span>}
+                                    </div>
+                                )}
+                                <div className={`self-start max-w-[80%] rounded-lg p-2 border ${isCurrent ? 'border-slate-800 dark:border-white' : 'border-slate-200 dark:border-gray-700'} bg-slate-100 dark:bg-black/20`}>
+                                    <img src={version.image.previewUrl} alt={version.parentId === null ? 'Original image' : `Version ${version.id}`} className="w-full h-auto max-h-72 object-contain rounded" />
+                                    <div className="flex items-center justify-between gap-2 mt-2 text-xs text-slate-500 dark:text-gray-400">
+                                        <span>{version.parentId === null ? 'Original' : `Version ${version.id}`}</span>
+                                        {siblings.length > 1 && (
+                                            <span className="flex items-center gap-1">
+                                                <button onClick={() => handleSwitchBranch(version, -1)} disabled={isBusy} className="px-1 hover:text-slate-800 dark:hover:text-white disabled:opacity-40" aria-label="Previous branch">‹</button>
+                                                Branch {siblingIndex + 1}/{siblings.length}
+                                                <button onClick={() => handleSwitchBranch(version, 1)} disabled={isBusy} className="px-1 hover:text-slate-800 dark:hover:text-white disabled:opacity-40" aria-label="Next branch">›</button>
+                                            </span>
+                                        )}
+                                        {!isCurrent && (
+                                            <button onClick={() => selectVersion(version.id)} disabled={isBusy} className="flex items-center gap-1 font-semibold text-slate-700 dark:text-gray-200 hover:text-slate-900 dark:hover:text-white disabled:opacity-40">
+                                                <ResetIcon />
+                                                Edit from here
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </React.Fragment>
+                        );
+                    })}
+
+                    {pendingEdit && (
+                        <>
+                            <div className="self-end max-w-[80%] bg-cyan-500 text-white rounded-lg rounded-br-none px-3 py-2 text-sm">
+                                {pendingEdit.instruction}
+                                {pendingEdit.mask && <span className="block mt-1 text-xs opacity-80">Masked edit</span>}
+                            </div>
+                            <div className="self-start flex items-center gap-3 rounded-lg p-3 bg-slate-100 dark:bg-black/20 text-sm text-slate-600 dark:text-gray-300">
+                                <SpinnerIcon />
+                                Editing…
+                                <button onClick={handleCancelEdit} className="underline hover:no-underline">Cancel</button>
+                            </div>
+                        </>
+                    )}
+                    <RetryWaitNotice wait={retryWait} />
+                    <GenerationErrorNotice error={error} onRetry={failedEdit ? () => runEdit(failedEdit) : undefined} onRephrase={() => textInputRef.current?.focus()} />
+                    <div ref={threadEndRef} />
                 </div>
 
                 {/* Input Area */}
                 <div className="p-4 border-t border-slate-200 dark:border-gray-700 flex-shrink-0">
-                    {referenceImage && (
-                        <div className="relative w-20 h-20 mb-2">
-                            <img src={referenceImage.previewUrl} className="w-full h-full object-cover rounded-lg" alt="Reference preview"/>
-                            <button 
-                                onClick={() => {
-                                    setReferenceImage(null);
-                                    if(fileInputRef.current) fileInputRef.current.value = '';
-                                }} 
-                                className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm pb-0.5"
-                                aria-label="Remove reference image"
-                            >
-                                &times;
-                            </button>
+                    {isMasking && (
+                        <>
+                            <p className="text-xs text-slate-500 dark:text-gray-400 mb-2">
+                                Paint over the area to change. Everything else stays exactly as it is.
+                            </p>
+                            <MaskEditor
+                                key={byId(currentId).image.previewUrl}
+                                imageUrl={byId(currentId).image.previewUrl}
+                                onChange={setMask}
+                                className="mb-3"
+                            />
+                        </>
+                    )}
+                    {references.length > 0 && (
+                        <div className="mb-2">
+                            <ReferenceImagesInput id="chat-references" references={references} onChange={setReferences} onError={setError} showAddInput={false} />
                         </div>
                     )}
-                    <div 
-                        className="flex items-center gap-2 bg-slate-100 dark:bg-gray-800 rounded-lg p-2 cursor-text"
-                        onClick={handleInputContainerClick}
-                    >
-                        {/* FIX: Replaced button with a label for reliable file uploads on mobile */}
-                        <label 
-                            htmlFor="reference-upload"
-                            className="p-2 text-slate-600 dark:text-gray-300 hover:text-slate-900 dark:hover:text-white transition-colors rounded-full cursor-pointer" 
-                            aria-label="Add reference image"
+                    <div onClick={handleInputContainerClick}>
+                        <ImageInput
+                            id="reference-upload"
+                            variant="compact"
+                            preprocess={REFERENCE_UPLOAD}
+                            onImage={(image) => setReferences([...references, { ...image, role: nextReferenceRole(references) }])}
+                            onError={setError}
+                            disabled={isBusy || references.length >= MAX_REFERENCE_IMAGES}
+                            className="flex items-center gap-1 bg-slate-100 dark:bg-gray-800 rounded-lg p-2 cursor-text"
                         >
-                            <PlusIcon className="h-6 w-6" />
-                        </label>
-                        <input id="reference-upload" type="file" ref={fileInputRef} onChange={handleReferenceUpload} accept="image/*" className="hidden" />
-                        
-                        <input 
-                            ref={textInputRef}
-                            type="text"
-                            value={userInput}
-                            onChange={(e) => setUserInput(e.target.value)}
-                            onKeyPress={(e) => e.key === 'Enter' && handleDone()}
-                            placeholder="Type instructions..."
-                            className="flex-1 bg-transparent focus:outline-none text-slate-800 dark:text-white"
-                        />
-                        <button onClick={handleDone} disabled={!userInput.trim() && !referenceImage} className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50">
-                            Done
-                        </button>
+                            <button
+                                onClick={() => { setIsMasking(!isMasking); setMask(null); }}
+                                className={`px-2 py-1 text-xs font-semibold rounded-md transition ${isMasking ? 'bg-slate-800 text-white dark:bg-white dark:text-black' : 'text-slate-600 dark:text-gray-300 hover:text-slate-900 dark:hover:text-white'}`}
+                                aria-pressed={isMasking}
+                            >
+                                Mask
+                            </button>
+
+                            <input
+                                ref={textInputRef}
+                                type="text"
+                                value={userInput}
+                                onChange={(e) => setUserInput(e.target.value)}
+                                onKeyPress={(e) => e.key === 'Enter' && handleSend()}
+                                placeholder={mask ? "Describe the change to the painted area..." : currentId === 0 ? "Describe an edit..." : "Describe the next edit..."}
+                                className="flex-1 bg-transparent focus:outline-none text-slate-800 dark:text-white"
+                            />
+                            <button onClick={handleSend} disabled={!userInput.trim() || isBusy} className="p-2 text-cyan-600 dark:text-cyan-400 hover:text-cyan-700 dark:hover:text-cyan-300 transition-colors disabled:opacity-50" aria-label="Send">
+                                <SendIcon />
+                            </button>
+                        </ImageInput>
                     </div>
+                    <button
+                        onClick={() => onClose(byId(currentId).image, thread.flatMap(version => version.instruction ? [version.instruction] : []))}
+                        disabled={isBusy || currentId === 0}
+                        className="w-full mt-3 bg-cyan-500 hover:bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Use this version
+                    </button>
                 </div>
             </div>
         </div>
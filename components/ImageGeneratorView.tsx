@@ -1,11 +1,31 @@
-import React, { useState, useCallback } from 'react';
-import { ImageStyle, AspectRatio } from '../types';
-import { generateImages, generatePromptFromImage } from '../services/geminiService';
-import { PhotoIcon, SpinnerIcon, EyeIcon, DownloadIcon, ResetIcon, ChatIcon } from './icons';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AspectRatio, ImageSlot } from '../types';
+import { generateImage, generateImageSlots, generatePromptFromImage, expandImage } from '../services/geminiService';
+import { PhotoIcon, SpinnerIcon, EyeIcon, DownloadIcon, ResetIcon, ChatIcon, CutIcon } from './icons';
 import ImageChatView from './ImageChatView';
+import CompareView, { CompareItem } from './CompareView';
+import ImageInput from './ImageInput';
+import PromptEnhancer from './PromptEnhancer';
+import StylePresetPicker from './StylePresetPicker';
+import ReferenceImagesInput, { nextReferenceRole } from './ReferenceImagesInput';
+import BackgroundRemover from './BackgroundRemover';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
+import { FitMode, fitModeLabels } from '../services/imageFit';
+import { saveToHistory } from '../services/historyStore';
+import { GenerationMetadata, describeGeneration, downloadImage, readMetadataFromFile } from '../services/imageMetadata';
+import { ReferenceImage, MAX_REFERENCE_IMAGES, toReferencePayloads } from '../services/referenceImages';
+import { PreparedImage } from '../services/imagePreprocess';
+import { DEFAULT_STYLE_PRESET_ID, getStylePreset, findStylePreset, stylePhrase, styleGuidance, styleReferencePayload } from '../services/stylePresets';
 
-const styles: ImageStyle[] = [ImageStyle.Realistic, ImageStyle.Ghibli, ImageStyle.ThreeD];
 const ratios: AspectRatio[] = [AspectRatio.SixteenNine, AspectRatio.OneOne, AspectRatio.NineSixteen];
+const fitModes: FitMode[] = ['crop', 'pad-blur', 'pad-solid'];
+
+// 'text' creates images from the prompt alone; 'image' makes variations of an upload.
+type GenerationMode = 'text' | 'image';
+const modeLabels: Record<GenerationMode, string> = { text: 'From Text', image: 'From Image' };
 
 
 interface UploadedImage {
@@ -15,150 +35,293 @@ interface UploadedImage {
 }
 
 const ImageGeneratorView: React.FC = () => {
+  const [mode, setMode] = useState<GenerationMode>('text');
   const [prompt, setPrompt] = useState<string>('');
   const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
-  const [selectedStyle, setSelectedStyle] = useState<ImageStyle>(ImageStyle.Realistic);
+  const [selectedStyleId, setSelectedStyleId] = useState<string>(DEFAULT_STYLE_PRESET_ID);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
   const [selectedRatio, setSelectedRatio] = useState<AspectRatio>(AspectRatio.SixteenNine);
+  const [fitMode, setFitMode] = useState<FitMode>('crop');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isGeneratingPrompt, setIsGeneratingPrompt] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+  const [error, setError] = useState<string | GenerationError | null>(null);
+  const [slots, setSlots] = useState<ImageSlot[]>([]);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
-  const [placeholderCount, setPlaceholderCount] = useState<number>(0);
+  const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
   const [viewingImage, setViewingImage] = useState<string | null>(null);
+  const [isDraggingSettings, setIsDraggingSettings] = useState<boolean>(false);
+  const [isCompareOpen, setIsCompareOpen] = useState<boolean>(false);
+  const [isExpanding, setIsExpanding] = useState<boolean>(false);
+  const [expandError, setExpandError] = useState<string | GenerationError | null>(null);
+  const [cutOutSource, setCutOutSource] = useState<{ image: string; name: string } | null>(null);
   
   const [isChatOpen, setIsChatOpen] = useState<boolean>(false);
   const [imageToEdit, setImageToEdit] = useState<UploadedImage | null>(null);
-  const [chatInstructions, setChatInstructions] = useState<string | null>(null);
-  const [chatRefImage, setChatRefImage] = useState<UploadedImage | null>(null);
-
-
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-        const reader = new FileReader();
-        reader.onloadend = async () => {
-            const fullDataUrl = reader.result as string;
-            const mimeType = fullDataUrl.substring(fullDataUrl.indexOf(':') + 1, fullDataUrl.indexOf(';'));
-            const base64Data = fullDataUrl.split(',')[1];
-            setUploadedImage({
-                data: base64Data,
-                mimeType: mimeType,
-                previewUrl: fullDataUrl,
-            });
-
-            // Auto-generate prompt from image
-            setIsGeneratingPrompt(true);
-            setError(null);
-            setPrompt('');
-
-            try {
-                const generatedPrompt = await generatePromptFromImage(base64Data, mimeType);
-                setPrompt(generatedPrompt);
-            } catch (err: any) {
-                setError(err.message || 'Failed to generate prompt from image.');
-            } finally {
-                setIsGeneratingPrompt(false);
-            }
-        };
-        reader.readAsDataURL(file);
+  // Settings of the result being edited in the chat, if it was generated here.
+  const [imageToEditMetadata, setImageToEditMetadata] = useState<GenerationMetadata | undefined>(undefined);
+
+  const generatedImages = slots.flatMap(slot => slot.status === 'done' ? [slot.image] : []);
+
+  // The upload leads the list so it is the default "before" when comparing variations.
+  const compareItems: CompareItem[] = [
+      ...(mode === 'image' && uploadedImage ? [{ label: 'Original', image: uploadedImage.previewUrl }] : []),
+      ...slots.flatMap((slot, index) => slot.status === 'done' ? [{ label: `Image ${index + 1}`, image: slot.image }] : []),
+  ];
+
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const expandAbortRef = useRef<AbortController | null>(null);
+
+  // Closing the generator overlay unmounts this view; stop any work still in flight.
+  useEffect(() => {
+    return () => {
+        generationAbortRef.current?.abort();
+        analysisAbortRef.current?.abort();
+        expandAbortRef.current?.abort();
+    };
+  }, []);
+
+
+  const handleImageSelected = async (image: UploadedImage) => {
+    setUploadedImage(image);
+
+    // Auto-generate prompt from image
+    setIsGeneratingPrompt(true);
+    setError(null);
+    setPrompt('');
+
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
+    try {
+        const generatedPrompt = await generatePromptFromImage(image.data, image.mimeType, { signal: controller.signal });
+        setPrompt(generatedPrompt);
+    } catch (err: any) {
+        if (!isCancellation(err)) {
+            setError(toGenerationError(err));
+        }
+    } finally {
+        if (!controller.signal.aborted) {
+            setIsGeneratingPrompt(false);
+        }
     }
   };
 
   const handleGenerateClick = () => {
-    if (!uploadedImage) {
+    if (mode === 'image' && !uploadedImage) {
       setError("Please upload an image to generate variations.");
       return;
     }
+    if (mode === 'text' && !prompt.trim()) {
+      setError("Please describe the image you want to create.");
+      return;
+    }
     setError(null);
     setIsModalOpen(true);
   };
   
-  const startGeneration = useCallback(async (count: number) => {
-    setIsModalOpen(false);
+  const buildRequest = useCallback(() => {
+    const style = getStylePreset(selectedStyleId);
+    const request = mode === 'image'
+        ? `Crucially, the final generated image MUST have a strict aspect ratio of ${selectedRatio}. Generate a new creative image variation based on the uploaded image, in a ${stylePhrase(style)}. The instructions are: "${prompt}".`
+        : `Create a high-quality image in a ${stylePhrase(style)}. The image shows: "${prompt}".`;
+    const fullPrompt = [request, styleGuidance(style)].filter(Boolean).join(' ');
+    const styleReference = styleReferencePayload(style);
+    const referencePayloads = [...toReferencePayloads(references), ...(styleReference ? [styleReference] : [])];
+
+    // Text mode sends the prompt alone, even if an upload is still around from image mode.
+    const imagePayload = mode === 'image' && uploadedImage 
+        ? { data: uploadedImage.data, mimeType: uploadedImage.mimeType } 
+        : undefined;
+
+    const fit = { mode: fitMode };
+    const settings = { prompt, fullPrompt, style: style.name, aspectRatio: selectedRatio, fit };
+    const record = (image: string) => saveToHistory({ kind: 'image', image, ...settings, sourceImage: imagePayload, references: referencePayloads });
+
+    return { fullPrompt, imagePayload, referencePayloads, fit, settings, record };
+  }, [mode, prompt, selectedStyleId, references, selectedRatio, fitMode, uploadedImage]);
+
+  // The request the current results came from, so a retried slot matches its siblings even
+  // if the controls have changed since.
+  const resultsRequestRef = useRef<ReturnType<typeof buildRequest> | null>(null);
+
+  const updateSlot = (index: number, slot: ImageSlot) => {
+    setSlots(prev => prev.map((existing, i) => i === index ? slot : existing));
+  };
+
+  // The controller for the current batch; single-slot retries share it so Cancel stops them too.
+  const currentSignal = () => {
+    if (!generationAbortRef.current || generationAbortRef.current.signal.aborted) {
+        generationAbortRef.current = new AbortController();
+    }
+    return generationAbortRef.current.signal;
+  };
+
+  const runGeneration = useCallback(async (count: number) => {
+    generationAbortRef.current?.abort();
+    const signal = currentSignal();
     setIsLoading(true);
     setError(null);
-    setGeneratedImages([]);
-    setPlaceholderCount(count);
+    setSlots(Array(count).fill({ status: 'pending' }));
 
-    const basePrompt = `Crucially, the final generated image MUST have a strict aspect ratio of ${selectedRatio}. Generate a new creative image variation based on the uploaded image, in a ${selectedStyle} style. The instructions are: "${prompt}".`;
-    const fullPrompt = chatInstructions ? `${basePrompt} Additional chat instructions: "${chatInstructions}"` : basePrompt;
-    
-    try {
-        const imagePayload = uploadedImage 
-            ? { data: uploadedImage.data, mimeType: uploadedImage.mimeType } 
-            : undefined;
-        
-        const refImagePayload = chatRefImage
-            ? { data: chatRefImage.data, mimeType: chatRefImage.mimeType }
-            : undefined;
-
-        const images = await generateImages(fullPrompt, count, selectedRatio, imagePayload, refImagePayload);
-        setGeneratedImages(images);
-    } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
-    } finally {
-      setIsLoading(false);
-      setPlaceholderCount(0);
+    const request = buildRequest();
+    resultsRequestRef.current = request;
+    const { fullPrompt, imagePayload, referencePayloads, fit, settings, record } = request;
+    const results = await generateImageSlots(fullPrompt, count, settings.aspectRatio, imagePayload, referencePayloads, (result) => {
+        if (signal.aborted) return;
+        if ('image' in result) record(result.image);
+        updateSlot(result.index, 'image' in result ? { status: 'done', image: result.image, metadata: describeGeneration(settings) } : { status: 'failed', error: result.error });
+    }, { signal, onRetryWait: setRetryWait, fit });
+
+    // A cancelled batch has already been cleaned up by handleCancel.
+    if (signal.aborted) return;
+    setRetryWait(null);
+
+    // Surface the recovery actions when nothing came back at all.
+    const failures = results.flatMap(result => 'error' in result ? [result.error] : []);
+    if (failures.length > 0 && failures.length === results.length) {
+        setError(failures[0]);
     }
-  }, [prompt, selectedStyle, selectedRatio, uploadedImage, chatInstructions, chatRefImage]);
+    setIsLoading(false);
+  }, [buildRequest]);
+
+  const startGeneration = useCallback((count: number) => {
+    setIsModalOpen(false);
+    runGeneration(count);
+  }, [runGeneration]);
   
-  const handleRegenerate = useCallback(async () => {
-    const count = generatedImages.length;
+  const handleRegenerate = useCallback(() => {
+    const count = slots.length;
     if (count === 0) {
         handleGenerateClick();
         return;
     }
+    runGeneration(count);
+  }, [runGeneration, slots.length]);
 
-    setIsLoading(true);
-    setError(null);
-    setPlaceholderCount(count);
-    setGeneratedImages([]);
-
-    const basePrompt = `Crucially, the final generated image MUST have a strict aspect ratio of ${selectedRatio}. Generate a new creative image variation based on the uploaded image, in a ${selectedStyle} style. The instructions are: "${prompt}".`;
-    const fullPrompt = chatInstructions ? `${basePrompt} Additional chat instructions: "${chatInstructions}"` : basePrompt;
+  const handleCancel = () => {
+    generationAbortRef.current?.abort();
+    setSlots(prev => prev.filter(slot => slot.status !== 'pending'));
+    setIsLoading(false);
+    setRetryWait(null);
+  };
 
+  const handleRetrySlot = async (index: number) => {
+    const signal = currentSignal();
+    updateSlot(index, { status: 'pending' });
+    const { fullPrompt, imagePayload, referencePayloads, fit, settings, record } = resultsRequestRef.current ?? buildRequest();
     try {
-        const imagePayload = uploadedImage 
-            ? { data: uploadedImage.data, mimeType: uploadedImage.mimeType } 
-            : undefined;
-        
-        const refImagePayload = chatRefImage
-            ? { data: chatRefImage.data, mimeType: chatRefImage.mimeType }
-            : undefined;
-        
-        const images = await generateImages(fullPrompt, count, selectedRatio, imagePayload, refImagePayload);
-        setGeneratedImages(images);
+        const image = await generateImage(fullPrompt, settings.aspectRatio, imagePayload, referencePayloads, index, { signal, onRetryWait: setRetryWait, fit });
+        if (!signal.aborted) {
+            record(image);
+            updateSlot(index, { status: 'done', image, metadata: describeGeneration(settings) });
+        }
     } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
-      setGeneratedImages([]); // Clear images on failure
+        if (!signal.aborted) {
+            updateSlot(index, { status: 'failed', error: toGenerationError(err) });
+        }
     } finally {
-      setIsLoading(false);
-      setPlaceholderCount(0);
+        setRetryWait(null);
     }
-  }, [prompt, selectedStyle, selectedRatio, uploadedImage, generatedImages.length, chatInstructions, chatRefImage]);
+  };
   
   const handleStartOver = () => {
+    handleCancelExpand();
     setPrompt('');
     setUploadedImage(null);
-    setSelectedStyle(ImageStyle.Realistic);
+    setReferences([]);
+    setSelectedStyleId(DEFAULT_STYLE_PRESET_ID);
     setSelectedRatio(AspectRatio.SixteenNine);
     setError(null);
-    setGeneratedImages([]);
-    setPlaceholderCount(0);
-    setChatInstructions(null);
-    setChatRefImage(null);
+    setExpandError(null);
+    setSlots([]);
+  };
+
+  const handleDownload = (imageSrc: string, index: number, metadata?: GenerationMetadata) => {
+    downloadImage(imageSrc, `generated-image-creation-${index + 1}`, metadata);
+  };
+
+  // A cut-out joins the reference images, where it can be placed into the next generation.
+  const handleUseCutOut = (cutOut: PreparedImage) => {
+    setReferences(prev => prev.length < MAX_REFERENCE_IMAGES ? [...prev, { ...cutOut, role: nextReferenceRole(prev) }] : prev);
+  };
+
+  // Extends the uploaded photo itself to the selected ratio, as opposed to generating a new
+  // variation in that shape. The result joins the others at the end of the grid.
+  const handleExpandCanvas = async () => {
+    if (!uploadedImage) return;
+    expandAbortRef.current?.abort();
+    const controller = new AbortController();
+    expandAbortRef.current = controller;
+
+    setIsExpanding(true);
+    setExpandError(null);
+    const sourceImage = { data: uploadedImage.data, mimeType: uploadedImage.mimeType };
+    // The photo keeps its own look, so no style preset applies.
+    const settings = {
+        prompt,
+        fullPrompt: `Expand the canvas to ${selectedRatio} without changing the original picture.${prompt.trim() ? ` The scene: ${prompt.trim()}` : ''}`,
+        style: 'Original',
+        aspectRatio: selectedRatio,
+    };
+    try {
+        const image = await expandImage(sourceImage, selectedRatio, prompt, { signal: controller.signal, onRetryWait: setRetryWait });
+        saveToHistory({ kind: 'image', operation: 'expand', image, ...settings, sourceImage });
+        setSlots(prev => [...prev, { status: 'done', image, metadata: describeGeneration(settings) }]);
+    } catch (err) {
+        if (isCancellation(err)) return;
+        setExpandError(toGenerationError(err));
+    } finally {
+        if (!controller.signal.aborted) {
+            setIsExpanding(false);
+            setRetryWait(null);
+        }
+    }
   };
 
-  const handleDownload = (imageSrc: string, index: number) => {
-    const link = document.createElement('a');
-    link.href = imageSrc;
-    link.download = `generated-image-creation-${index + 1}.jpeg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleCancelExpand = () => {
+    expandAbortRef.current?.abort();
+    setIsExpanding(false);
+    setRetryWait(null);
   };
 
+  // Loads the settings embedded in a downloaded image back into the controls. The source
+  // image of an image-mode result isn't in the file, so the prompt comes back in text mode.
+  const handleImportSettings = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+        const metadata = await readMetadataFromFile(file);
+        if (!metadata) {
+            setError("That image doesn't contain any generation settings. Only images downloaded from Spark do.");
+            return;
+        }
+        setMode('text');
+        setPrompt(metadata.prompt);
+        const style = findStylePreset(metadata.style);
+        if (style) setSelectedStyleId(style.id);
+        if (ratios.includes(metadata.aspectRatio as AspectRatio)) setSelectedRatio(metadata.aspectRatio as AspectRatio);
+        if (metadata.fit?.mode) setFitMode(metadata.fit.mode);
+        setError(null);
+    } catch (err) {
+        console.error("Error reading image settings:", err);
+        setError("Could not read that file.");
+    }
+  };
+
+  const handleSettingsDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingSettings(false);
+    handleImportSettings(e.dataTransfer.files[0]);
+  };
+
+  const canGenerate = mode === 'image' ? !!uploadedImage : !!prompt.trim();
+
+  // Control sections in display order; the upload step only exists in image mode.
+  const steps = mode === 'image' ? ['upload', 'prompt', 'references', 'chat', 'style', 'ratio'] : ['prompt', 'references', 'chat', 'style', 'ratio'];
+  const stepLabel = (step: string, label: string) => `${steps.indexOf(step) + 1}. ${label}`;
+
   const getAspectRatioClass = (ratio: AspectRatio) => {
     switch(ratio) {
         case AspectRatio.OneOne: return 'aspect-square';
@@ -169,19 +332,22 @@ const ImageGeneratorView: React.FC = () => {
     }
   }
 
-  const handleOpenChat = () => {
-    // Prioritize the first generated image, fall back to uploaded image
-    if (generatedImages.length > 0) {
-        const dataUrl = generatedImages[0];
-        const mimeType = dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
-        const base64Data = dataUrl.split(',')[1];
+  const handleOpenChat = (dataUrl?: string) => {
+    // Prioritize the chosen or first generated image, fall back to uploaded image
+    const source = dataUrl ?? generatedImages[0];
+    if (source) {
+        const mimeType = source.substring(source.indexOf(':') + 1, source.indexOf(';'));
+        const base64Data = source.split(',')[1];
         setImageToEdit({
             data: base64Data,
             mimeType: mimeType,
-            previewUrl: dataUrl
+            previewUrl: source
         });
+        const slot = slots.find(slot => slot.status === 'done' && slot.image === source);
+        setImageToEditMetadata(slot?.status === 'done' ? slot.metadata : undefined);
     } else if (uploadedImage) {
         setImageToEdit(uploadedImage);
+        setImageToEditMetadata(undefined);
     } else {
         setError("No image available to edit. Please upload or generate an image first.");
         return;
@@ -189,79 +355,136 @@ const ImageGeneratorView: React.FC = () => {
     setIsChatOpen(true);
   };
 
-  const handleChatClose = (instructions?: string, refImage?: UploadedImage) => {
+  // The version picked in the chat joins the results. It is appended so the indices of any
+  // slots still being generated stay valid. Its prompt is the chain of edits that made it.
+  const handleChatClose = (selectedImage?: UploadedImage, instructions: string[] = []) => {
       setIsChatOpen(false);
-      setImageToEdit(null);
-      if (instructions) {
-          setChatInstructions(instructions);
-      }
-      if (refImage) {
-          setChatRefImage(refImage);
+      if (selectedImage && imageToEdit) {
+          const settings = {
+              prompt: instructions.join(' → '),
+              fullPrompt: instructions.map((instruction, i) => `${i + 1}. ${instruction}`).join('\n'),
+              style: imageToEditMetadata?.style ?? 'Original',
+              aspectRatio: imageToEditMetadata?.aspectRatio ?? selectedRatio,
+              fit: imageToEditMetadata?.fit,
+          };
+          saveToHistory({ kind: 'image', operation: 'chat-edit', image: selectedImage.previewUrl, ...settings, sourceImage: { data: imageToEdit.data, mimeType: imageToEdit.mimeType } });
+          setSlots(prev => [...prev, { status: 'done', image: selectedImage.previewUrl, metadata: describeGeneration(settings) }]);
       }
+      setImageToEdit(null);
+      setImageToEditMetadata(undefined);
   };
 
   return (
     <div className="animate-fade-in">
-        <h2 className="text-3xl font-bold text-center mb-6 text-slate-800 dark:text-white">Image Variation Generator</h2>
+        <h2 className="text-3xl font-bold text-center mb-6 text-slate-800 dark:text-white">Image Generator</h2>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             {/* Controls */}
-            <div className="md:col-span-1 bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700 flex flex-col space-y-6">
+            <div
+                className={`md:col-span-1 bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border flex flex-col space-y-6 transition-colors ${isDraggingSettings ? 'border-slate-800 dark:border-white' : 'border-slate-200 dark:border-gray-700'}`}
+                onDragOver={(e) => { e.preventDefault(); setIsDraggingSettings(true); }}
+                onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingSettings(false); }}
+                onDrop={handleSettingsDrop}
+            >
+                <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(modeLabels) as GenerationMode[]).map(option => (
+                        <button key={option} onClick={() => { setMode(option); setError(null); }} className={`px-3 py-2 text-sm rounded-md transition ${mode === option ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}>
+                            {modeLabels[option]}
+                        </button>
+                    ))}
+                </div>
+                <label htmlFor="import-settings" className="-mt-3 text-xs text-center text-slate-500 dark:text-gray-400 hover:text-slate-800 dark:hover:text-white cursor-pointer transition-colors">
+                    Import settings from an image (or drop one here)
+                    <input id="import-settings" type="file" className="hidden" onChange={(e) => { handleImportSettings(e.target.files?.[0]); e.target.value = ''; }} accept="image/png, image/jpeg" />
+                </label>
+                {mode === 'image' && (
+                    <div>
+                        <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2 flex items-center">
+                            {stepLabel('upload', 'Upload Image')}
+                            {isGeneratingPrompt && <span className="ml-2"><SpinnerIcon /></span>}
+                        </label>
+                        {uploadedImage ? (
+                            <div className="relative group">
+                                <img src={uploadedImage.previewUrl} alt="Uploaded preview" className="rounded-lg w-full h-auto object-contain max-h-48 border border-slate-300 dark:border-gray-600"/>
+                                <button 
+                                    onClick={() => { setUploadedImage(null); setPrompt(''); setExpandError(null); }} 
+                                    className="absolute top-2 right-2 bg-black/60 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity text-xl font-bold leading-none pb-1"
+                                    aria-label="Remove image"
+                                >
+                                    &times;
+                                </button>
+                            </div>
+                        ) : (
+                            <ImageInput id="image-upload" onImage={handleImageSelected} onError={setError} />
+                        )}
+                        {isGeneratingPrompt && <p className="text-xs text-slate-500 dark:text-gray-400 mt-1 text-center">Analyzing image...</p>}
+                        {uploadedImage && (
+                            <div className="flex items-center gap-2 mt-2">
+                                <button
+                                    onClick={handleExpandCanvas}
+                                    disabled={isExpanding}
+                                    className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title="Keep the photo as it is and fill in new space around it"
+                                >
+                                    {isExpanding && <SpinnerIcon />}
+                                    {isExpanding ? 'Expanding…' : `Expand canvas to ${selectedRatio}`}
+                                </button>
+                                {isExpanding && (
+                                    <button onClick={handleCancelExpand} className="text-xs underline hover:no-underline text-slate-600 dark:text-gray-300">Cancel</button>
+                                )}
+                                <button
+                                    onClick={() => setCutOutSource({ image: uploadedImage.previewUrl, name: 'upload-cut-out' })}
+                                    className="flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800 transition"
+                                    title="Cut the subject out onto a transparent background"
+                                >
+                                    <CutIcon className="h-4 w-4" />
+                                    Remove background
+                                </button>
+                            </div>
+                        )}
+                        <GenerationErrorNotice error={expandError} onRetry={handleExpandCanvas} className="mt-2" />
+                    </div>
+                )}
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <label htmlFor="image-prompt" className="block text-sm font-medium text-slate-800 dark:text-white">
+                            {stepLabel('prompt', mode === 'image' ? 'Instructions' : 'Describe Your Image')}
+                        </label>
+                        <PromptEnhancer prompt={prompt} target="image" style={getStylePreset(selectedStyleId).name} onApply={setPrompt} disabled={isGeneratingPrompt} />
+                    </div>
+                    <textarea
+                        id="image-prompt"
+                        ref={promptRef}
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        placeholder={mode === 'image' ? 'Filled in from your upload; edit to steer the variation.' : 'e.g., A lighthouse on a cliff at sunset, waves crashing below'}
+                        rows={4}
+                        disabled={isGeneratingPrompt}
+                        className="w-full bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-600 rounded-lg p-3 text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-slate-500 dark:focus:ring-gray-500 focus:outline-none transition resize-y disabled:opacity-50"
+                    />
+                </div>
                 <div>
-                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2 flex items-center">
-                        1. Upload Image
-                        {isGeneratingPrompt && <span className="ml-2"><SpinnerIcon /></span>}
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">
+                        {stepLabel('references', 'Reference Images')} <span className="font-normal text-slate-500 dark:text-gray-400">(optional)</span>
                     </label>
-                    {uploadedImage ? (
-                        <div className="relative group">
-                            <img src={uploadedImage.previewUrl} alt="Uploaded preview" className="rounded-lg w-full h-auto object-contain max-h-48 border border-slate-300 dark:border-gray-600"/>
-                            <button 
-                                onClick={() => { setUploadedImage(null); setPrompt(''); }} 
-                                className="absolute top-2 right-2 bg-black/60 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity text-xl font-bold leading-none pb-1"
-                                aria-label="Remove image"
-                            >
-                                &times;
-                            </button>
-                        </div>
-                    ) : (
-                        <div className="relative w-full h-28 border-2 border-dashed border-slate-400 dark:border-gray-700 rounded-lg flex items-center justify-center text-slate-500 dark:text-gray-400 hover:border-slate-800 dark:hover:border-white hover:text-slate-800 dark:hover:text-white transition cursor-pointer bg-slate-100 dark:bg-gray-900">
-                            <label htmlFor="image-upload" className="absolute inset-0 flex items-center justify-center cursor-pointer">
-                                <span>Click to upload</span>
-                            </label>
-                            <input id="image-upload" type="file" className="hidden" onChange={handleImageUpload} accept="image/png, image/jpeg, image/webp" />
-                        </div>
-                    )}
-                    {isGeneratingPrompt && <p className="text-xs text-slate-500 dark:text-gray-400 mt-1 text-center">Analyzing image...</p>}
+                    <ReferenceImagesInput id="image-reference-upload" references={references} onChange={setReferences} onError={setError} />
                 </div>
                 <div>
-                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">2. Chat Edit</label>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">{stepLabel('chat', 'Chat Edit')}</label>
                     <button
-                        onClick={handleOpenChat}
-                        disabled={!uploadedImage && generatedImages.length === 0}
+                        onClick={() => handleOpenChat()}
+                        disabled={!(mode === 'image' && uploadedImage) && generatedImages.length === 0}
                         className="w-full flex items-center justify-center gap-2 bg-slate-200 dark:bg-gray-800 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 font-bold py-3 px-4 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         <ChatIcon />
                         Edit with Chat
                     </button>
-                    {chatInstructions && (
-                        <div className="mt-2 p-2 bg-slate-200/50 dark:bg-gray-800/50 rounded-lg text-xs text-slate-600 dark:text-gray-400">
-                            <p className="font-bold">Chat edits active:</p>
-                            <p className="truncate italic">"{chatInstructions}"</p>
-                            {chatRefImage && <p className="font-semibold mt-1">Reference image added.</p>}
-                        </div>
-                    )}
                 </div>
                 <div>
-                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">3. Style</label>
-                    <div className="grid grid-cols-3 gap-2">
-                        {styles.map(style => (
-                            <button key={style} onClick={() => setSelectedStyle(style)} className={`px-3 py-2 text-sm rounded-md transition ${selectedStyle === style ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}>
-                                {style === ImageStyle.ThreeD ? '3D' : style}
-                            </button>
-                        ))}
-                    </div>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">{stepLabel('style', 'Style')}</label>
+                    <StylePresetPicker value={selectedStyleId} onChange={setSelectedStyleId} disabled={isLoading} />
                 </div>
                 <div>
-                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">4. Aspect Ratio</label>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">{stepLabel('ratio', 'Aspect Ratio')}</label>
                      <div className="grid grid-cols-3 gap-2">
                         {ratios.map(ratio => (
                             <button key={ratio} onClick={() => setSelectedRatio(ratio)} className={`px-3 py-2 text-sm rounded-md transition ${selectedRatio === ratio ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}>
@@ -269,18 +492,33 @@ const ImageGeneratorView: React.FC = () => {
                             </button>
                         ))}
                     </div>
-                    <p className="text-xs text-slate-500 dark:text-gray-400 mt-1 text-center col-span-3">The AI will attempt to generate an image with this ratio.</p>
+                    <div className="grid grid-cols-3 gap-2 mt-2">
+                        {fitModes.map(fit => (
+                            <button key={fit} onClick={() => setFitMode(fit)} className={`px-3 py-1.5 text-xs rounded-md transition ${fitMode === fit ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}>
+                                {fitModeLabels[fit]}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-500 dark:text-gray-400 mt-1 text-center col-span-3">Images that come back in another shape are cropped or padded to exactly this ratio.</p>
                 </div>
 
                 <div className="flex items-center space-x-2 pt-2">
                     <button
-                        onClick={generatedImages.length > 0 ? handleRegenerate : handleGenerateClick}
-                        disabled={isLoading || !uploadedImage}
+                        onClick={slots.length > 0 ? handleRegenerate : handleGenerateClick}
+                        disabled={isLoading || !canGenerate}
                         className="w-full bg-slate-800 dark:bg-white hover:bg-slate-700 dark:hover:bg-gray-200 text-white dark:text-black font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                     >
-                        {isLoading ? <SpinnerIcon /> : (generatedImages.length > 0 ? 'Regenerate' : 'Generate')}
+                        {isLoading ? <SpinnerIcon /> : (slots.length > 0 ? 'Regenerate' : 'Generate')}
                     </button>
-                    {generatedImages.length > 0 && !isLoading && (
+                    {isLoading && (
+                        <button
+                            onClick={handleCancel}
+                            className="flex-shrink-0 bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    {slots.length > 0 && !isLoading && (
                         <button
                             onClick={handleStartOver}
                             className="flex-shrink-0 bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold p-3 rounded-lg transition-colors"
@@ -290,29 +528,63 @@ const ImageGeneratorView: React.FC = () => {
                         </button>
                     )}
                 </div>
-                {error && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{error}</p>}
+                {compareItems.length > 1 && (
+                    <button
+                        onClick={() => setIsCompareOpen(true)}
+                        className="w-full bg-slate-200 dark:bg-gray-900 hover:bg-slate-300 dark:hover:bg-gray-800 text-slate-800 dark:text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+                    >
+                        Compare
+                    </button>
+                )}
+                <RetryWaitNotice wait={retryWait} />
+                <GenerationErrorNotice error={error} onRetry={canGenerate ? handleGenerateClick : undefined} onRephrase={() => promptRef.current?.focus()} />
             </div>
 
             {/* Image Display */}
             <div className="md:col-span-2 bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700 min-h-[400px] flex items-center justify-center">
-                 <div className={`grid ${generatedImages.length > 1 || placeholderCount > 1 ? 'grid-cols-2' : 'grid-cols-1'} gap-2 w-full h-full`}>
-                     {(isLoading ? Array(placeholderCount).fill('') : generatedImages).map((imgSrc, index) => (
+                 <div className={`grid ${slots.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} gap-2 w-full h-full`}>
+                     {slots.map((slot, index) => (
                         <div key={index} className={`relative rounded-lg overflow-hidden ${getAspectRatioClass(selectedRatio)}`}>
-                            {isLoading ? (
+                            {slot.status === 'pending' ? (
                                 <div className={`w-full h-full flex items-center justify-center animate-pulse bg-slate-200 dark:bg-gray-900 rounded-lg ${getAspectRatioClass(selectedRatio)} min-h-[180px]`}><SpinnerIcon /></div>
+                            ) : slot.status === 'failed' ? (
+                                <div className={`w-full h-full flex flex-col items-center justify-center gap-3 p-4 text-center bg-red-500/10 border border-red-500/30 rounded-lg ${getAspectRatioClass(selectedRatio)} min-h-[180px]`}>
+                                    <p className="text-sm text-red-600 dark:text-red-400">{slot.error.message}</p>
+                                    <button
+                                        onClick={() => handleRetrySlot(index)}
+                                        className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-800 text-white dark:bg-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors"
+                                    >
+                                        <ResetIcon />
+                                        Retry
+                                    </button>
+                                </div>
                             ) : (
                                 <>
-                                    <img src={imgSrc} alt={`Generated image ${index + 1}`} className="w-full h-full object-cover"/>
+                                    <img src={slot.image} alt={`Generated image ${index + 1}`} className="w-full h-full object-cover"/>
                                     <div className="absolute top-2 right-2 flex items-center gap-2">
                                         <button 
-                                            onClick={() => setViewingImage(imgSrc)} 
+                                            onClick={() => setViewingImage(slot.image)} 
                                             className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
                                             aria-label="View image"
                                         >
                                             <EyeIcon className="h-5 w-5" />
                                         </button>
                                         <button 
-                                            onClick={() => handleDownload(imgSrc, index)} 
+                                            onClick={() => handleOpenChat(slot.image)} 
+                                            className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
+                                            aria-label="Edit with chat"
+                                        >
+                                            <ChatIcon />
+                                        </button>
+                                        <button 
+                                            onClick={() => setCutOutSource({ image: slot.image, name: `generated-image-cut-out-${index + 1}` })} 
+                                            className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
+                                            aria-label="Remove background"
+                                        >
+                                            <CutIcon />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleDownload(slot.image, index, slot.metadata)} 
                                             className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
                                             aria-label="Download image"
                                         >
@@ -323,7 +595,7 @@ const ImageGeneratorView: React.FC = () => {
                             )}
                         </div>
                      ))}
-                     {!isLoading && generatedImages.length === 0 && (
+                     {slots.length === 0 && (
                         <div className="col-span-full flex flex-col items-center justify-center text-slate-500 dark:text-gray-400 h-full min-h-[350px]">
                            <PhotoIcon />
                            <p className="mt-4">Your generated images will appear here</p>
@@ -362,6 +634,19 @@ const ImageGeneratorView: React.FC = () => {
             </div>
         )}
 
+        {isCompareOpen && compareItems.length > 1 && (
+            <CompareView items={compareItems} onClose={() => setIsCompareOpen(false)} />
+        )}
+
+        {cutOutSource && (
+            <BackgroundRemover
+                image={cutOutSource.image}
+                downloadName={cutOutSource.name}
+                onUseCutOut={references.length < MAX_REFERENCE_IMAGES ? handleUseCutOut : undefined}
+                onClose={() => setCutOutSource(null)}
+            />
+        )}
+
         {isChatOpen && imageToEdit && (
             <ImageChatView
                 initialImage={imageToEdit}
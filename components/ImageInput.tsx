@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { preprocessImageFile, uploadErrorMessage, PreparedImage, PreprocessOptions, UPLOAD_ACCEPT } from '../services/imagePreprocess';
+import { HistoryEntry, listHistory } from '../services/historyStore';
+import CameraCapture from './CameraCapture';
+import { PlusIcon, CameraIcon, HistoryIcon, SpinnerIcon } from './icons';
+
+interface ImageInputProps {
+    id: string;
+    onImage: (image: PreparedImage) => void;
+    onError: (message: string) => void;
+    preprocess?: PreprocessOptions;
+    // 'dropzone' is the large dashed upload area; 'compact' is a row of icon buttons placed in
+    // front of `children` (e.g. a chat input bar), with the whole row accepting drops.
+    variant?: 'dropzone' | 'compact';
+    // Off for secondary inputs that shouldn't take Ctrl+V from the main one on the page.
+    acceptPaste?: boolean;
+    disabled?: boolean;
+    className?: string;
+    children?: React.ReactNode;
+}
+
+const HISTORY_PICKER_LIMIT = 24;
+
+// Pasting goes to the most recently mounted input, so the chat editor's input wins over the
+// generator underneath it.
+const pasteTargets: symbol[] = [];
+
+// Pasted or dropped text that is most likely a link to an image.
+const IMAGE_URL_PATTERN = /^(data:image\/|blob:|https?:\/\/\S+\.(png|jpe?g|webp)(\?\S*)?$)/i;
+
+// Every way of getting an image into a generator: file picker, drag-and-drop, Ctrl+V, a
+// photo from the camera, or an earlier result from the history. Whatever the source, the
+// image goes through the same upload preprocessing.
+const ImageInput: React.FC<ImageInputProps> = ({ id, onImage, onError, preprocess, variant = 'dropzone', acceptPaste = true, disabled = false, className = '', children }) => {
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    const [historyEntries, setHistoryEntries] = useState<HistoryEntry[] | null>(null);
+
+    const acceptFile = async (file: File) => {
+        setIsProcessing(true);
+        try {
+            onImage(await preprocessImageFile(file, preprocess));
+        } catch (err) {
+            onError(uploadErrorMessage(err));
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const acceptUrl = async (url: string) => {
+        let blob: Blob;
+        try {
+            blob = await fetch(url).then(response => {
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                return response.blob();
+            });
+        } catch (err) {
+            console.error("Error fetching image URL:", err);
+            onError("That image couldn't be loaded. The site it's on may not allow it to be used here; try downloading it and uploading the file.");
+            return;
+        }
+        acceptFile(new File([blob], 'image', { type: blob.type }));
+    };
+
+    // The paste listener is registered once, so it calls through a ref to see current props.
+    const acceptRef = useRef({ acceptFile, acceptUrl, disabled });
+    acceptRef.current = { acceptFile, acceptUrl, disabled };
+
+    useEffect(() => {
+        if (!acceptPaste) return;
+        const token = Symbol(id);
+        pasteTargets.push(token);
+        const handlePaste = (e: ClipboardEvent) => {
+            const { acceptFile, acceptUrl, disabled } = acceptRef.current;
+            if (disabled || pasteTargets[pasteTargets.length - 1] !== token || !e.clipboardData) return;
+            const file = Array.from(e.clipboardData.files).find(item => item.type.startsWith('image/'));
+            const text = e.clipboardData.getData('text/plain').trim();
+            if (file) {
+                e.preventDefault();
+                acceptFile(file);
+            } else if (IMAGE_URL_PATTERN.test(text)) {
+                e.preventDefault();
+                acceptUrl(text);
+            }
+        };
+        document.addEventListener('paste', handlePaste);
+        return () => {
+            document.removeEventListener('paste', handlePaste);
+            pasteTargets.splice(pasteTargets.indexOf(token), 1);
+        };
+    }, [id, acceptPaste]);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        // Reset so choosing the same file again still fires a change.
+        event.target.value = '';
+        if (file) acceptFile(file);
+    };
+
+    // Drops are handled here and not passed up, so a surrounding drop target (like the
+    // generator's settings import) doesn't see them too.
+    const handleDragOver = (e: React.DragEvent<HTMLElement>) => {
+        if (disabled) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(true);
+    };
+
+    const handleDragLeave = (e: React.DragEvent<HTMLElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLElement>) => {
+        if (disabled) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        const url = (e.dataTransfer.getData('text/uri-list') || e.dataTransfer.getData('text/plain')).split('\n')[0].trim();
+        if (file) {
+            acceptFile(file);
+        } else if (IMAGE_URL_PATTERN.test(url)) {
+            acceptUrl(url);
+        } else {
+            onError("Only image files can be dropped here.");
+        }
+    };
+
+    const openHistory = () => {
+        setHistoryEntries([]);
+        listHistory()
+            .then(entries => setHistoryEntries(entries.slice(0, HISTORY_PICKER_LIMIT)))
+            .catch(err => {
+                console.error("Error loading history:", err);
+                setHistoryEntries(null);
+                onError("Could not open the history.");
+            });
+    };
+
+    const handlePickFromHistory = (entry: HistoryEntry) => {
+        setHistoryEntries(null);
+        acceptUrl(entry.image);
+    };
+
+    const handleCapture = (photo: File) => {
+        setIsCameraOpen(false);
+        acceptFile(photo);
+    };
+
+    const isBusy = disabled || isProcessing;
+    const dropHandlers = { onDragOver: handleDragOver, onDragLeave: handleDragLeave, onDrop: handleDrop };
+
+    const fileInput = <input id={id} type="file" className="hidden" onChange={handleFileChange} accept={UPLOAD_ACCEPT} disabled={isBusy} />;
+
+    const overlays = (
+        <>
+            {isCameraOpen && <CameraCapture onCapture={handleCapture} onClose={() => setIsCameraOpen(false)} />}
+            {historyEntries && (
+                <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] animate-fade-in p-4" onClick={() => setHistoryEntries(null)}>
+                    <div className="w-full max-w-lg max-h-[80vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl p-4" onClick={(e) => e.stopPropagation()}>
+                        <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-3">Choose from history</h3>
+                        {historyEntries.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-gray-400 py-8 text-center">Nothing here yet. Generated images will show up here.</p>
+                        ) : (
+                            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                                {historyEntries.map(entry => (
+                                    <button key={entry.id} onClick={() => handlePickFromHistory(entry)} className="aspect-square rounded-lg overflow-hidden bg-slate-200 dark:bg-gray-900 hover:ring-2 hover:ring-slate-800 dark:hover:ring-white transition" title={entry.prompt}>
+                                        <img src={entry.image} alt={entry.prompt} className="w-full h-full object-cover" loading="lazy" />
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </>
+    );
+
+    if (variant === 'compact') {
+        const iconButtonClass = 'p-2 text-slate-600 dark:text-gray-300 hover:text-slate-900 dark:hover:text-white transition-colors rounded-full disabled:opacity-40';
+        return (
+            <div className={`${className} ${isDragging ? 'ring-2 ring-slate-800 dark:ring-white' : ''}`} {...dropHandlers}>
+                {/* A label rather than a button, for reliable file pickers on mobile. */}
+                <label htmlFor={id} className={`${iconButtonClass} cursor-pointer`} aria-label="Add image">
+                    {isProcessing ? <SpinnerIcon /> : <PlusIcon className="h-6 w-6" />}
+                </label>
+                {fileInput}
+                <button onClick={() => setIsCameraOpen(true)} disabled={isBusy} className={iconButtonClass} aria-label="Take photo">
+                    <CameraIcon />
+                </button>
+                <button onClick={openHistory} disabled={isBusy} className={iconButtonClass} aria-label="Choose from history">
+                    <HistoryIcon />
+                </button>
+                {children}
+                {overlays}
+            </div>
+        );
+    }
+
+    return (
+        <div className={className}>
+            <div
+                className={`relative w-full h-28 border-2 border-dashed rounded-lg flex items-center justify-center transition cursor-pointer bg-slate-100 dark:bg-gray-900 ${isDragging ? 'border-slate-800 dark:border-white text-slate-800 dark:text-white' : 'border-slate-400 dark:border-gray-700 text-slate-500 dark:text-gray-400 hover:border-slate-800 dark:hover:border-white hover:text-slate-800 dark:hover:text-white'}`}
+                {...dropHandlers}
+            >
+                <label htmlFor={id} className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer text-center px-2">
+                    {isProcessing ? <SpinnerIcon /> : <span>Click, drop or paste an image</span>}
+                </label>
+                {fileInput}
+            </div>
+            <div className="flex gap-2 mt-2">
+                <button onClick={() => setIsCameraOpen(true)} disabled={isBusy} className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-xs rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800 transition disabled:opacity-50">
+                    <CameraIcon className="h-4 w-4" />
+                    Take photo
+                </button>
+                <button onClick={openHistory} disabled={isBusy} className="flex-1 flex items-center justify-center gap-2 px-3 py-1.5 text-xs rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800 transition disabled:opacity-50">
+                    <HistoryIcon className="h-4 w-4" />
+                    From history
+                </button>
+            </div>
+            {overlays}
+        </div>
+    );
+};
+
+export default ImageInput;
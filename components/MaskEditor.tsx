@@ -0,0 +1,139 @@
+import React, { useState, useRef } from 'react';
+
+type MaskTool = 'brush' | 'eraser';
+
+interface MaskEditorProps {
+    imageUrl: string;
+    // Called after every stroke with an alpha-mask PNG at the image's natural size, or with
+    // null when nothing is painted.
+    onChange: (maskUrl: string | null) => void;
+    className?: string;
+}
+
+const MASK_COLOR = 'rgb(236, 72, 153)';
+
+// Brush size as a percentage of the image's longer side, so it feels the same at any resolution.
+const MIN_BRUSH = 1;
+const MAX_BRUSH = 20;
+
+const isCanvasEmpty = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return true;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] !== 0) return false;
+    }
+    return true;
+};
+
+// Paint-over-the-image mask editor for inpainting: the brush marks the region to change,
+// the eraser takes it back.
+const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onChange, className = '' }) => {
+    const [tool, setTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(6);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        // Resizing the canvas also clears it.
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    const drawTo = (point: { x: number; y: number }) => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        const from = lastPointRef.current ?? point;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = MASK_COLOR;
+        ctx.lineWidth = (brushSize / 100) * Math.max(canvas.width, canvas.height);
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(point.x, point.y);
+        ctx.stroke();
+        lastPointRef.current = point;
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        lastPointRef.current = null;
+        drawTo(toCanvasPoint(e));
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        drawTo(toCanvasPoint(e));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        lastPointRef.current = null;
+        const canvas = e.currentTarget;
+        onChange(isCanvasEmpty(canvas) ? null : canvas.toDataURL('image/png'));
+    };
+
+    const handleClear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        onChange(null);
+    };
+
+    return (
+        <div className={className}>
+            {/* The wrapper shrinks to the image so the canvas lines up with it exactly. */}
+            <div className="flex justify-center">
+              <div className="relative inline-block">
+                <img src={imageUrl} alt="Image to mask" onLoad={handleImageLoad} className="block max-w-full max-h-72 rounded select-none" draggable={false} />
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2 mt-2 text-xs">
+                {(['brush', 'eraser'] as MaskTool[]).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setTool(option)}
+                        className={`px-3 py-1.5 rounded-md transition capitalize ${tool === option ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700'}`}
+                    >
+                        {option}
+                    </button>
+                ))}
+                <input
+                    type="range"
+                    min={MIN_BRUSH}
+                    max={MAX_BRUSH}
+                    value={brushSize}
+                    onChange={(e) => setBrushSize(Number(e.target.value))}
+                    className="flex-1"
+                    aria-label="Brush size"
+                />
+                <button onClick={handleClear} className="px-3 py-1.5 rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition">
+                    Clear
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MaskEditor;
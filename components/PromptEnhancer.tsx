@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { enhancePrompt } from '../services/geminiService';
+import { PromptTarget } from '../services/providers';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
+import { diffWords } from '../services/textDiff';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import { SpinnerIcon, StarIcon } from './icons';
+
+interface PromptEnhancerProps {
+    prompt: string;
+    target: PromptTarget;
+    // The style the prompt will be generated in, so the rewrite can suit it.
+    style?: string;
+    // What exactly is being made ("Instagram story"), when `target` alone is too vague.
+    format?: string;
+    onApply: (prompt: string) => void;
+    disabled?: boolean;
+}
+
+// One rewrite from the model; `draft` is the user's edited version of it.
+interface Alternative {
+    text: string;
+    draft: string;
+}
+
+const REWRITES_PER_REQUEST = 3;
+const MAX_ALTERNATIVES = 9;
+
+// The "Enhance" button next to a prompt box. It asks a text model for a few detailed
+// rewrites of the prompt and shows each as a diff against the original, editable before
+// it replaces the prompt.
+const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ prompt, target, style, format, onApply, disabled = false }) => {
+    const [source, setSource] = useState<string | null>(null);
+    const [alternatives, setAlternatives] = useState<Alternative[]>([]);
+    const [selected, setSelected] = useState(0);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<GenerationError | null>(null);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    // Rewrites are kept per prompt and style, so closing the panel, or reopening it after
+    // undoing an applied rewrite, doesn't throw them away.
+    const cacheRef = useRef(new Map<string, Alternative[]>());
+
+    const cacheKey = (text: string) => `${target}|${style ?? ''}|${format ?? ''}|${text}`;
+
+    useEffect(() => {
+        return () => abortRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        if (source !== null && alternatives.length > 0) {
+            cacheRef.current.set(cacheKey(source), alternatives);
+        }
+    }, [alternatives]);
+
+    const requestRewrites = async (original: string) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            const rewrites = await enhancePrompt(original, target, style, format, REWRITES_PER_REQUEST, { signal: controller.signal, onRetryWait: setRetryWait });
+            setAlternatives(current => {
+                const known = new Set(current.map(alternative => alternative.text));
+                const fresh = rewrites.filter(text => !known.has(text)).map(text => ({ text, draft: text }));
+                if (fresh.length > 0) setSelected(current.length);
+                return [...current, ...fresh].slice(0, MAX_ALTERNATIVES);
+            });
+        } catch (err) {
+            if (isCancellation(err)) return;
+            setError(toGenerationError(err));
+        } finally {
+            if (!controller.signal.aborted) {
+                setIsLoading(false);
+                setRetryWait(null);
+            }
+        }
+    };
+
+    const handleOpen = () => {
+        const original = prompt.trim();
+        const cached = cacheRef.current.get(cacheKey(original));
+        setSource(original);
+        setAlternatives(cached ?? []);
+        setSelected(0);
+        setError(null);
+        if (!cached) requestRewrites(original);
+    };
+
+    const handleClose = () => {
+        abortRef.current?.abort();
+        setSource(null);
+        setIsLoading(false);
+        setRetryWait(null);
+    };
+
+    const current = alternatives[selected];
+
+    const handleDraftChange = (draft: string) => {
+        setAlternatives(alternatives.map((alternative, index) => index === selected ? { ...alternative, draft } : alternative));
+    };
+
+    const handleApply = () => {
+        if (!current?.draft.trim()) return;
+        onApply(current.draft.trim());
+        handleClose();
+    };
+
+    return (
+        <>
+            <button
+                onClick={handleOpen}
+                disabled={disabled || !prompt.trim()}
+                className="text-xs font-semibold flex items-center gap-1 transition-colors px-2 py-1 rounded-md text-slate-600 dark:text-gray-300 hover:text-black dark:hover:text-white hover:bg-slate-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Rewrite the prompt with more detail"
+            >
+                <StarIcon className="h-4 w-4" />
+                Enhance
+            </button>
+            {source !== null && (
+                <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] animate-fade-in p-4" onClick={handleClose}>
+                    <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+                        <h3 className="text-lg font-bold text-slate-800 dark:text-white">Enhanced prompt</h3>
+                        {alternatives.length > 0 && (
+                            <div className="flex flex-wrap items-center gap-2">
+                                {alternatives.map((alternative, index) => (
+                                    <button
+                                        key={alternative.text}
+                                        onClick={() => setSelected(index)}
+                                        className={`px-3 py-1.5 text-xs rounded-md transition ${index === selected ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700'}`}
+                                    >
+                                        Option {index + 1}{alternative.draft !== alternative.text ? ' (edited)' : ''}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => requestRewrites(source)}
+                                    disabled={isLoading || alternatives.length >= MAX_ALTERNATIVES}
+                                    className="px-3 py-1.5 text-xs rounded-md text-slate-600 dark:text-gray-300 hover:text-black dark:hover:text-white hover:bg-slate-200 dark:hover:bg-gray-700 transition disabled:opacity-50 flex items-center gap-1"
+                                >
+                                    {isLoading ? <SpinnerIcon /> : 'More ideas'}
+                                </button>
+                            </div>
+                        )}
+                        {current ? (
+                            <>
+                                <div>
+                                    <p className="text-sm font-medium text-slate-800 dark:text-white mb-2">Changes</p>
+                                    <p className="text-sm leading-relaxed p-3 rounded-lg bg-slate-100 dark:bg-gray-900 text-slate-800 dark:text-gray-200 whitespace-pre-wrap">
+                                        {diffWords(source, current.draft).map((segment, index) => (
+                                            <span
+                                                key={index}
+                                                className={segment.type === 'added'
+                                                    ? 'bg-green-500/20 text-green-800 dark:text-green-300 rounded'
+                                                    : segment.type === 'removed' ? 'line-through text-red-600 dark:text-red-400 opacity-70' : ''}
+                                            >
+                                                {segment.text}
+                                            </span>
+                                        ))}
+                                    </p>
+                                </div>
+                                <div>
+                                    <label htmlFor="enhanced-prompt" className="block text-sm font-medium text-slate-800 dark:text-white mb-2">Edit before using</label>
+                                    <textarea
+                                        id="enhanced-prompt"
+                                        value={current.draft}
+                                        onChange={(e) => handleDraftChange(e.target.value)}
+                                        rows={5}
+                                        className="w-full bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-600 rounded-lg p-3 text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-slate-500 dark:focus:ring-gray-500 focus:outline-none transition resize-y"
+                                    />
+                                </div>
+                            </>
+                        ) : isLoading && (
+                            <div className="flex items-center justify-center gap-2 py-10 text-sm text-slate-500 dark:text-gray-400">
+                                <SpinnerIcon />
+                                Writing a few alternatives...
+                            </div>
+                        )}
+                        <RetryWaitNotice wait={retryWait} />
+                        <GenerationErrorNotice error={error} onRetry={() => requestRewrites(source)} />
+                        <div className="flex justify-end gap-2">
+                            <button onClick={handleClose} className="px-4 py-2 text-sm rounded-lg bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors">
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleApply}
+                                disabled={!current?.draft.trim()}
+                                className="px-4 py-2 text-sm font-bold rounded-lg bg-slate-800 dark:bg-white text-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors disabled:opacity-50"
+                            >
+                                Use this prompt
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default PromptEnhancer;
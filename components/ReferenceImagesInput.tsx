@@ -0,0 +1,73 @@
+import React from 'react';
+import { ReferenceRole } from '../services/providers';
+import { ReferenceImage, MAX_REFERENCE_IMAGES, REFERENCE_UPLOAD, referenceRoles, referenceRoleLabels } from '../services/referenceImages';
+import ImageInput from './ImageInput';
+
+interface ReferenceImagesInputProps {
+    id: string;
+    references: ReferenceImage[];
+    onChange: (references: ReferenceImage[]) => void;
+    onError: (message: string) => void;
+    // Off when the caller has its own way of adding images (like the chat's input bar).
+    showAddInput?: boolean;
+    disabled?: boolean;
+}
+
+// The first role not already taken, so a product shot and a logo added one after the
+// other don't both start out as the subject.
+export const nextReferenceRole = (references: ReferenceImage[]): ReferenceRole =>
+    referenceRoles.find(role => !references.some(reference => reference.role === role)) ?? 'subject';
+
+// Attached reference images, each with a role picker, plus a compact input for adding more.
+const ReferenceImagesInput: React.FC<ReferenceImagesInputProps> = ({ id, references, onChange, onError, showAddInput = true, disabled = false }) => {
+    const setRole = (index: number, role: ReferenceRole) => {
+        onChange(references.map((reference, i) => i === index ? { ...reference, role } : reference));
+    };
+
+    return (
+        <div className="space-y-2">
+            {references.map((reference, index) => (
+                <div key={index} className="flex items-center gap-2">
+                    <img src={reference.previewUrl} alt={referenceRoleLabels[reference.role]} className="w-12 h-12 object-cover rounded-lg flex-shrink-0" />
+                    <select
+                        value={reference.role}
+                        onChange={(e) => setRole(index, e.target.value as ReferenceRole)}
+                        disabled={disabled}
+                        aria-label="What this reference is for"
+                        className="flex-1 min-w-0 bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-700 rounded-lg p-2 text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-slate-500 dark:focus:ring-white/50 focus:outline-none transition"
+                    >
+                        {referenceRoles.map(role => (
+                            <option key={role} value={role}>{referenceRoleLabels[role]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => onChange(references.filter((_, i) => i !== index))}
+                        disabled={disabled}
+                        className="bg-red-500 text-white rounded-full w-6 h-6 flex-shrink-0 flex items-center justify-center text-sm pb-0.5 disabled:opacity-50"
+                        aria-label={`Remove ${referenceRoleLabels[reference.role].toLowerCase()} reference`}
+                    >
+                        &times;
+                    </button>
+                </div>
+            ))}
+            {showAddInput && references.length < MAX_REFERENCE_IMAGES && (
+                <ImageInput
+                    id={id}
+                    variant="compact"
+                    acceptPaste={false}
+                    preprocess={REFERENCE_UPLOAD}
+                    onImage={(image) => onChange([...references, { ...image, role: nextReferenceRole(references) }])}
+                    onError={onError}
+                    disabled={disabled}
+                    className="flex items-center gap-1 rounded-lg border border-dashed border-slate-400 dark:border-gray-700 p-1"
+                >
+                    <span className="text-xs text-slate-500 dark:text-gray-400">
+                        {references.length === 0 ? 'Add a subject, product, logo or style image' : `Add another (up to ${MAX_REFERENCE_IMAGES})`}
+                    </span>
+                </ImageInput>
+            )}
+        </div>
+    );
+};
+
+export default ReferenceImagesInput;
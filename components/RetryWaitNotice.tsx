@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { RetryWait } from '../services/requestScheduler';
+import { SpinnerIcon } from './icons';
+
+interface RetryWaitNoticeProps {
+    wait: RetryWait | null;
+    className?: string;
+}
+
+// Shown while the request scheduler is backing off after a quota (429) or availability error.
+const RetryWaitNotice: React.FC<RetryWaitNoticeProps> = ({ wait, className = '' }) => {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        if (!wait) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 500);
+        return () => clearInterval(timer);
+    }, [wait]);
+
+    if (!wait) return null;
+
+    const secondsLeft = Math.max(0, Math.ceil((wait.until - now) / 1000));
+    const reason = wait.error.kind === 'quota' ? 'Waiting for quota' : 'Service busy';
+
+    return (
+        <div role="status" className={`mt-2 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm flex items-center ${className}`}>
+            <SpinnerIcon />
+            <span className="text-amber-700 dark:text-amber-300">
+                {reason}… {secondsLeft > 0 ? `retrying in ${secondsLeft}s` : 'retrying now'} (attempt {wait.attempt + 1})
+            </span>
+        </div>
+    );
+};
+
+export default RetryWaitNotice;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { SafeZone } from '../services/thumbnailPlatforms';
+
+interface SafeZoneOverlayProps {
+    zones: SafeZone[];
+}
+
+const percent = (value: number) => `${value * 100}%`;
+
+// Guides drawn over a preview: shaded boxes where the platform's interface covers the image,
+// dashed outlines around where the important content should stay. Never part of the image.
+const SafeZoneOverlay: React.FC<SafeZoneOverlayProps> = ({ zones }) => (
+    <div className="absolute inset-0 pointer-events-none">
+        {zones.map(zone => (
+            <div
+                key={zone.label}
+                className={`absolute ${zone.kind === 'covered' ? 'bg-red-500/30 border border-red-400' : 'border-2 border-dashed border-cyan-300/80'}`}
+                style={{ left: percent(zone.x), top: percent(zone.y), width: percent(zone.width), height: percent(zone.height) }}
+            >
+                <span className={`absolute ${zone.kind === 'covered' ? 'top-0.5 left-1' : 'bottom-0.5 right-1'} text-[10px] leading-none font-semibold text-white drop-shadow`}>
+                    {zone.label}
+                </span>
+            </div>
+        ))}
+    </div>
+);
+
+export default SafeZoneOverlay;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { StylePreset, saveStylePreset } from '../services/stylePresets';
+import ImageInput from './ImageInput';
+
+interface StylePresetEditorProps {
+    preset: StylePreset;
+    // Whether `preset` is being created (new or a duplicate) rather than changed.
+    isNew: boolean;
+    onSaved: (preset: StylePreset) => void;
+    onClose: () => void;
+}
+
+// Reference images only convey a look, so a small one is plenty and keeps presets small
+// enough to store.
+const REFERENCE_UPLOAD = { maxEdge: 512, quality: 0.85 };
+
+const fieldClassName = "w-full bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-600 rounded-lg p-3 text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-slate-500 dark:focus:ring-gray-500 focus:outline-none transition";
+
+const StylePresetEditor: React.FC<StylePresetEditorProps> = ({ preset, isNew, onSaved, onClose }) => {
+    const [name, setName] = useState(preset.name);
+    const [prompt, setPrompt] = useState(preset.prompt);
+    const [negative, setNegative] = useState(preset.negative ?? '');
+    const [referenceImage, setReferenceImage] = useState(preset.referenceImage);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleSave = () => {
+        const saved: StylePreset = {
+            id: preset.id,
+            name: name.trim(),
+            prompt: prompt.trim(),
+            negative: negative.trim() || undefined,
+            referenceImage,
+        };
+        try {
+            saveStylePreset(saved);
+            onSaved(saved);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] animate-fade-in p-4" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl p-5 space-y-4" onClick={(e) => e.stopPropagation()}>
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white">{isNew ? 'New style preset' : 'Edit style preset'}</h3>
+                <div>
+                    <label htmlFor="style-preset-name" className="block text-sm font-medium text-slate-800 dark:text-white mb-2">Name</label>
+                    <input id="style-preset-name" type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Neon Noir" className={fieldClassName} />
+                </div>
+                <div>
+                    <label htmlFor="style-preset-prompt" className="block text-sm font-medium text-slate-800 dark:text-white mb-2">What it looks like</label>
+                    <textarea
+                        id="style-preset-prompt"
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        rows={3}
+                        placeholder="e.g., rain-soaked city streets, neon reflections, deep blacks and magenta highlights"
+                        className={`${fieldClassName} resize-y`}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="style-preset-negative" className="block text-sm font-medium text-slate-800 dark:text-white mb-2">What to avoid <span className="font-normal text-slate-500 dark:text-gray-400">(optional)</span></label>
+                    <textarea
+                        id="style-preset-negative"
+                        value={negative}
+                        onChange={(e) => setNegative(e.target.value)}
+                        rows={2}
+                        placeholder="e.g., daylight, pastel colours"
+                        className={`${fieldClassName} resize-y`}
+                    />
+                </div>
+                <div>
+                    <p className="block text-sm font-medium text-slate-800 dark:text-white mb-2">Style reference image <span className="font-normal text-slate-500 dark:text-gray-400">(optional)</span></p>
+                    {referenceImage ? (
+                        <div className="relative w-28 h-28">
+                            <img src={referenceImage} alt="Style reference" className="w-full h-full object-cover rounded-lg" />
+                            <button
+                                onClick={() => setReferenceImage(undefined)}
+                                className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm pb-0.5"
+                                aria-label="Remove style reference image"
+                            >
+                                &times;
+                            </button>
+                        </div>
+                    ) : (
+                        <ImageInput id="style-reference-upload" preprocess={REFERENCE_UPLOAD} onImage={(image) => setReferenceImage(image.previewUrl)} onError={setError} />
+                    )}
+                </div>
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm rounded-lg bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!name.trim() || !prompt.trim()}
+                        className="px-4 py-2 text-sm font-bold rounded-lg bg-slate-800 dark:bg-white text-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                        Save preset
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StylePresetEditor;
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import {
+    StylePreset,
+    DEFAULT_STYLE_PRESET_ID,
+    listStylePresets,
+    isBuiltInStylePreset,
+    createStylePresetId,
+    deleteStylePreset,
+    onStylePresetsChange,
+    exportStylePresets,
+    parseStylePresets,
+    importStylePresets,
+} from '../services/stylePresets';
+import StylePresetEditor from './StylePresetEditor';
+
+interface StylePresetPickerProps {
+    // Id of the selected preset.
+    value: string;
+    onChange: (id: string) => void;
+    disabled?: boolean;
+}
+
+interface EditorState {
+    preset: StylePreset;
+    isNew: boolean;
+}
+
+const actionClassName = "px-2 py-1 text-xs font-semibold rounded-md text-slate-600 dark:text-gray-300 hover:text-black dark:hover:text-white hover:bg-slate-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+// The style picker every generator shares: the built-in presets and the user's own, with
+// creating, editing, importing and exporting presets right where they are used.
+const StylePresetPicker: React.FC<StylePresetPickerProps> = ({ value, onChange, disabled = false }) => {
+    const [presets, setPresets] = useState<StylePreset[]>(listStylePresets);
+    const [editor, setEditor] = useState<EditorState | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => onStylePresetsChange(() => setPresets(listStylePresets())), []);
+
+    const selected = presets.find(preset => preset.id === value);
+    const userPresets = presets.filter(preset => !isBuiltInStylePreset(preset.id));
+
+    // The selected preset was deleted, here or in another tab.
+    useEffect(() => {
+        if (!selected) onChange(DEFAULT_STYLE_PRESET_ID);
+    }, [selected]);
+
+    const handleNew = () => {
+        setEditor({ preset: { id: createStylePresetId(), name: '', prompt: '' }, isNew: true });
+    };
+
+    const handleDuplicate = (preset: StylePreset) => {
+        setEditor({ preset: { ...preset, id: createStylePresetId(), name: `${preset.name} copy` }, isNew: true });
+    };
+
+    const handleDelete = (preset: StylePreset) => {
+        if (!window.confirm(`Delete the "${preset.name}" style preset?`)) return;
+        deleteStylePreset(preset.id);
+    };
+
+    const handleSaved = (preset: StylePreset) => {
+        setEditor(null);
+        setError(null);
+        onChange(preset.id);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseStylePresets(await file.text());
+            importStylePresets(imported);
+            setError(null);
+            onChange(imported[0].id);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleExport = () => {
+        const url = URL.createObjectURL(exportStylePresets(userPresets));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'style-presets.json';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div>
+            <div className="grid grid-cols-3 gap-2">
+                {presets.map(preset => (
+                    <button
+                        key={preset.id}
+                        onClick={() => onChange(preset.id)}
+                        disabled={disabled}
+                        title={preset.prompt}
+                        className={`px-3 py-2 text-sm rounded-md transition flex items-center justify-center gap-1.5 min-w-0 disabled:opacity-50 ${value === preset.id ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}
+                    >
+                        {preset.referenceImage && <img src={preset.referenceImage} alt="" className="w-4 h-4 rounded-sm object-cover flex-shrink-0" />}
+                        <span className="truncate">{preset.name}</span>
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1 mt-2">
+                <button onClick={handleNew} disabled={disabled} className={actionClassName}>New</button>
+                {selected && (isBuiltInStylePreset(selected.id) ? (
+                    <button onClick={() => handleDuplicate(selected)} disabled={disabled} className={actionClassName}>Duplicate</button>
+                ) : (
+                    <>
+                        <button onClick={() => setEditor({ preset: selected, isNew: false })} disabled={disabled} className={actionClassName}>Edit</button>
+                        <button onClick={() => handleDuplicate(selected)} disabled={disabled} className={actionClassName}>Duplicate</button>
+                        <button onClick={() => handleDelete(selected)} disabled={disabled} className={actionClassName}>Delete</button>
+                    </>
+                ))}
+                <span className="flex-1" />
+                <label htmlFor="style-preset-import" className={`${actionClassName} cursor-pointer`}>Import</label>
+                <input id="style-preset-import" type="file" className="hidden" onChange={handleImport} accept=".json,application/json" disabled={disabled} />
+                <button onClick={handleExport} disabled={userPresets.length === 0} className={actionClassName} title={userPresets.length === 0 ? 'Create or import a preset to export it' : 'Download your presets as JSON'}>
+                    Export
+                </button>
+            </div>
+            {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+            {editor && (
+                <StylePresetEditor preset={editor.preset} isNew={editor.isNew} onSaved={handleSaved} onClose={() => setEditor(null)} />
+            )}
+        </div>
+    );
+};
+
+export default StylePresetPicker;
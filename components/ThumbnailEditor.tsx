@@ -0,0 +1,411 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+    ThumbnailProject,
+    ThumbnailLayer,
+    TextLayer,
+    StickerLayer,
+    ImageLayer,
+    ProjectImages,
+    THUMBNAIL_FONTS,
+    stickerShapes,
+    stickerShapeLabels,
+    createTextLayer,
+    createStickerLayer,
+    createImageLayer,
+    loadProjectImages,
+    layerSize,
+    hitTestLayer,
+    renderThumbnail,
+    exportThumbnailPng,
+    exportThumbnailProject,
+    parseThumbnailProject,
+    projectScale,
+} from '../services/thumbnailProject';
+import { SafeZone, getThumbnailPlatform } from '../services/thumbnailPlatforms';
+import { downloadImage } from '../services/imageMetadata';
+import ImageInput from './ImageInput';
+import BackgroundRemover from './BackgroundRemover';
+import { CutIcon, DownloadIcon, TrashIcon } from './icons';
+
+interface ThumbnailEditorProps {
+    initialProject: ThumbnailProject;
+    onClose: () => void;
+}
+
+// Any subset of one kind of layer's properties.
+type LayerChanges =
+    | Partial<Omit<TextLayer, 'id' | 'kind'>>
+    | Partial<Omit<StickerLayer, 'id' | 'kind'>>
+    | Partial<Omit<ImageLayer, 'id' | 'kind'>>;
+
+interface Drag {
+    layerId: string;
+    // Pointer position relative to the layer's centre when the drag started.
+    offsetX: number;
+    offsetY: number;
+}
+
+const SELECTION_COLOR = '#22d3ee';
+
+// The platform's safe-zone guides, drawn over the preview only; exports never include them.
+const drawSafeZones = (ctx: CanvasRenderingContext2D, zones: SafeZone[], scale: number) => {
+    const { width, height } = ctx.canvas;
+    ctx.save();
+    ctx.font = `600 ${Math.round(16 * scale)}px sans-serif`;
+    ctx.textBaseline = 'top';
+    for (const zone of zones) {
+        const x = zone.x * width;
+        const y = zone.y * height;
+        const w = zone.width * width;
+        const h = zone.height * height;
+        if (zone.kind === 'covered') {
+            ctx.fillStyle = 'rgba(239, 68, 68, 0.3)';
+            ctx.fillRect(x, y, w, h);
+        } else {
+            ctx.strokeStyle = 'rgba(103, 232, 249, 0.8)';
+            ctx.lineWidth = 2 * scale;
+            ctx.setLineDash([10 * scale, 6 * scale]);
+            ctx.strokeRect(x, y, w, h);
+        }
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(zone.label, x + 6 * scale, y + 6 * scale);
+    }
+    ctx.restore();
+};
+
+const fieldClassName = "w-full bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-600 rounded-lg p-2 text-sm text-slate-800 dark:text-white focus:ring-2 focus:ring-slate-500 dark:focus:ring-gray-500 focus:outline-none transition";
+const labelClassName = "block text-xs font-medium text-slate-600 dark:text-gray-300";
+const actionClassName = "px-2 py-1 text-xs font-semibold rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+const layerLabel = (layer: ThumbnailLayer) =>
+    layer.kind === 'text' ? (layer.text.split('\n')[0] || 'Empty text')
+        : layer.kind === 'sticker' ? stickerShapeLabels[layer.shape]
+            : 'Image';
+
+const saveBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+// Puts real, editable text on a thumbnail instead of asking the model to paint it: text
+// layers, stickers and pictures (such as background cut-outs) over the generated image,
+// dragged into place on a canvas at the exact export size.
+const ThumbnailEditor: React.FC<ThumbnailEditorProps> = ({ initialProject, onClose }) => {
+    const [project, setProject] = useState<ThumbnailProject>(initialProject);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isCuttingOut, setIsCuttingOut] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [showSafeZones, setShowSafeZones] = useState(true);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const imagesRef = useRef<ProjectImages>(new Map());
+    const dragRef = useRef<Drag | null>(null);
+
+    const selected = project.layers.find(layer => layer.id === selectedId);
+    const platform = project.platform && getThumbnailPlatform(project.platform);
+    const scale = projectScale(project);
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadProjectImages(project, imagesRef.current)
+            .then(images => {
+                const ctx = canvasRef.current?.getContext('2d');
+                if (!isCurrent || !ctx) return;
+                imagesRef.current = images;
+                renderThumbnail(ctx, project, images);
+                if (platform && showSafeZones) {
+                    drawSafeZones(ctx, platform.zones, scale);
+                }
+                if (selected) {
+                    const { width, height } = layerSize(ctx, selected);
+                    ctx.save();
+                    ctx.translate(selected.x, selected.y);
+                    ctx.rotate(selected.rotation * Math.PI / 180);
+                    ctx.strokeStyle = SELECTION_COLOR;
+                    ctx.lineWidth = 3 * scale;
+                    ctx.setLineDash([12 * scale, 8 * scale]);
+                    const margin = 6 * scale;
+                    ctx.strokeRect(-width / 2 - margin, -height / 2 - margin, width + margin * 2, height + margin * 2);
+                    ctx.restore();
+                }
+            })
+            .catch(() => setError("One of the project's images could not be loaded."));
+        return () => { isCurrent = false; };
+    }, [project, selectedId, showSafeZones]);
+
+    const updateLayer = (id: string, changes: LayerChanges) => {
+        setProject(current => ({
+            ...current,
+            layers: current.layers.map(layer => layer.id === id ? { ...layer, ...changes } as ThumbnailLayer : layer),
+        }));
+    };
+
+    const addLayer = (layer: ThumbnailLayer) => {
+        setProject(current => ({ ...current, layers: [...current.layers, layer] }));
+        setSelectedId(layer.id);
+    };
+
+    const handleAddImage = async (src: string) => {
+        try {
+            addLayer(await createImageLayer(project, src));
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const moveLayer = (id: string, by: number) => {
+        setProject(current => {
+            const index = current.layers.findIndex(layer => layer.id === id);
+            const target = index + by;
+            if (index === -1 || target < 0 || target >= current.layers.length) return current;
+            const layers = [...current.layers];
+            [layers[index], layers[target]] = [layers[target], layers[index]];
+            return { ...current, layers };
+        });
+    };
+
+    const deleteLayer = (id: string) => {
+        setProject(current => ({ ...current, layers: current.layers.filter(layer => layer.id !== id) }));
+        setSelectedId(null);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * (canvas.width / rect.width),
+            y: (e.clientY - rect.top) * (canvas.height / rect.height),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const ctx = e.currentTarget.getContext('2d');
+        if (!ctx) return;
+        const point = toCanvasPoint(e);
+        const layer = hitTestLayer(ctx, project, point.x, point.y);
+        setSelectedId(layer?.id ?? null);
+        if (!layer) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { layerId: layer.id, offsetX: point.x - layer.x, offsetY: point.y - layer.y };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const drag = dragRef.current;
+        if (!drag || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+        const point = toCanvasPoint(e);
+        updateLayer(drag.layerId, {
+            x: Math.round(Math.min(project.width, Math.max(0, point.x - drag.offsetX))),
+            y: Math.round(Math.min(project.height, Math.max(0, point.y - drag.offsetY))),
+        });
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+        dragRef.current = null;
+    };
+
+    const handleExportPng = async () => {
+        setIsExporting(true);
+        try {
+            downloadImage(await exportThumbnailPng(project), `thumbnail-${project.width}x${project.height}`);
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            setProject(parseThumbnailProject(await file.text()));
+            setSelectedId(null);
+            setError(null);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleClose = () => {
+        if (project.layers.length > 0 && !window.confirm('Close the editor? Save the project first if you want to keep editing it later.')) return;
+        onClose();
+    };
+
+    const range = (label: string, value: number, min: number, max: number, onChange: (value: number) => void, step = 1) => (
+        <label className={labelClassName}>
+            {label} <span className="font-normal text-slate-500 dark:text-gray-400">{value}</span>
+            <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full" />
+        </label>
+    );
+
+    const color = (label: string, value: string, onChange: (value: string) => void) => (
+        <label className={`${labelClassName} flex items-center justify-between gap-2`}>
+            {label}
+            <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-10 h-7 rounded cursor-pointer bg-transparent" />
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fade-in p-4" onClick={handleClose}>
+            <div
+                className="w-full max-w-6xl max-h-[95vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl border border-slate-200 dark:border-gray-700 shadow-2xl p-5"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-white mr-auto">Edit thumbnail</h3>
+                    <label htmlFor="thumbnail-project-open" className={`${actionClassName} cursor-pointer`}>Open project</label>
+                    <input id="thumbnail-project-open" type="file" className="hidden" onChange={handleOpenProject} accept=".json,application/json" />
+                    <button onClick={() => saveBlob(exportThumbnailProject(project), 'thumbnail-project.json')} className={actionClassName}>Save project</button>
+                    <button onClick={handleExportPng} disabled={isExporting} className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold rounded-md bg-slate-800 dark:bg-white text-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors disabled:opacity-50">
+                        <DownloadIcon className="h-4 w-4" />
+                        Export PNG
+                    </button>
+                    <button onClick={handleClose} className="text-2xl leading-none px-2 text-slate-500 dark:text-gray-400 hover:text-black dark:hover:text-white" aria-label="Close editor">&times;</button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="md:col-span-2 space-y-2">
+                        <canvas
+                            ref={canvasRef}
+                            width={project.width}
+                            height={project.height}
+                            onPointerDown={handlePointerDown}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                            onPointerCancel={handlePointerUp}
+                            className="block mx-auto max-w-full max-h-[70vh] w-auto h-auto rounded-lg border border-slate-300 dark:border-gray-600 touch-none cursor-move"
+                        />
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <p className="text-xs text-slate-500 dark:text-gray-400">Click a layer to select it and drag it into place. Exports at {project.width}×{project.height}{platform && ` for ${platform.name}`}{platform?.upscaled && ', upscaled from the generated image'}.</p>
+                            {platform && (
+                                <label className={`${labelClassName} flex items-center gap-1 cursor-pointer`}>
+                                    <input type="checkbox" checked={showSafeZones} onChange={(e) => setShowSafeZones(e.target.checked)} />
+                                    Safe zones (not exported)
+                                </label>
+                            )}
+                        </div>
+                        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                    </div>
+                    <div className="space-y-4">
+                        <div>
+                            <p className="text-sm font-medium text-slate-800 dark:text-white mb-2">Add</p>
+                            <div className="flex flex-wrap gap-1">
+                                <button onClick={() => addLayer(createTextLayer(project))} className={actionClassName}>Text</button>
+                                {stickerShapes.map(shape => (
+                                    <button key={shape} onClick={() => addLayer(createStickerLayer(project, shape))} className={actionClassName}>
+                                        {stickerShapeLabels[shape]}
+                                    </button>
+                                ))}
+                                <button onClick={() => setIsCuttingOut(true)} className={`${actionClassName} flex items-center gap-1`} title="Cut the subject out of the background and add it as a layer">
+                                    <CutIcon className="h-4 w-4" />
+                                    Cut-out
+                                </button>
+                            </div>
+                            <ImageInput
+                                id="thumbnail-layer-upload"
+                                variant="compact"
+                                onImage={(image) => handleAddImage(image.previewUrl)}
+                                onError={setError}
+                                className="flex items-center gap-1 mt-2 rounded-lg border border-dashed border-slate-400 dark:border-gray-700 p-1"
+                            >
+                                <span className="text-xs text-slate-500 dark:text-gray-400">Add a picture or transparent PNG</span>
+                            </ImageInput>
+                        </div>
+                        <div>
+                            <p className="text-sm font-medium text-slate-800 dark:text-white mb-2">Layers</p>
+                            {project.layers.length === 0 ? (
+                                <p className="text-xs text-slate-500 dark:text-gray-400">No layers yet.</p>
+                            ) : (
+                                <ul className="space-y-1">
+                                    {[...project.layers].reverse().map(layer => (
+                                        <li key={layer.id} className="flex items-center gap-1">
+                                            <button
+                                                onClick={() => setSelectedId(layer.id)}
+                                                className={`flex-1 min-w-0 text-left px-2 py-1 text-xs rounded-md truncate transition ${layer.id === selectedId ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}
+                                            >
+                                                {layerLabel(layer)}
+                                            </button>
+                                            <button onClick={() => moveLayer(layer.id, 1)} className={actionClassName} aria-label="Bring forward">↑</button>
+                                            <button onClick={() => moveLayer(layer.id, -1)} className={actionClassName} aria-label="Send backward">↓</button>
+                                            <button onClick={() => deleteLayer(layer.id)} className={actionClassName} aria-label="Delete layer"><TrashIcon className="h-4 w-4" /></button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                        {selected && (
+                            <div className="space-y-3">
+                                <p className="text-sm font-medium text-slate-800 dark:text-white">Selected layer</p>
+                                {selected.kind === 'text' && (
+                                    <>
+                                        <textarea
+                                            value={selected.text}
+                                            onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+                                            rows={2}
+                                            aria-label="Text"
+                                            className={`${fieldClassName} resize-y`}
+                                        />
+                                        <div className="flex items-center gap-2">
+                                            <select
+                                                value={selected.font}
+                                                onChange={(e) => updateLayer(selected.id, { font: e.target.value })}
+                                                aria-label="Font"
+                                                className={fieldClassName}
+                                                style={{ fontFamily: selected.font }}
+                                            >
+                                                {THUMBNAIL_FONTS.map(font => (
+                                                    <option key={font} value={font} style={{ fontFamily: font }}>{font}</option>
+                                                ))}
+                                            </select>
+                                            <label className={`${labelClassName} flex items-center gap-1`}>
+                                                <input type="checkbox" checked={selected.bold} onChange={(e) => updateLayer(selected.id, { bold: e.target.checked })} />
+                                                Bold
+                                            </label>
+                                        </div>
+                                        {range('Size', selected.size, 16, Math.round(320 * scale), size => updateLayer(selected.id, { size }))}
+                                        {color('Fill', selected.fill, fill => updateLayer(selected.id, { fill }))}
+                                        {color('Outline', selected.stroke, stroke => updateLayer(selected.id, { stroke }))}
+                                        {range('Outline width', selected.strokeWidth, 0, Math.round(30 * scale), strokeWidth => updateLayer(selected.id, { strokeWidth }))}
+                                        {color('Shadow', selected.shadowColor, shadowColor => updateLayer(selected.id, { shadowColor }))}
+                                        {range('Shadow blur', selected.shadowBlur, 0, Math.round(40 * scale), shadowBlur => updateLayer(selected.id, { shadowBlur }))}
+                                    </>
+                                )}
+                                {selected.kind === 'sticker' && (
+                                    <>
+                                        {color('Colour', selected.color, value => updateLayer(selected.id, { color: value }))}
+                                        {range('Size', selected.size, 40, Math.round(600 * scale), size => updateLayer(selected.id, { size }))}
+                                    </>
+                                )}
+                                {selected.kind === 'image' && range('Width', selected.width, 40, project.width * 2, width => updateLayer(selected.id, {
+                                    width,
+                                    height: Math.round(width * selected.height / selected.width),
+                                }))}
+                                {range('Rotation', selected.rotation, -180, 180, rotation => updateLayer(selected.id, { rotation }))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+                {isCuttingOut && (
+                    <BackgroundRemover
+                        image={project.background}
+                        downloadName="thumbnail-cut-out"
+                        onUseCutOut={(cutOut) => handleAddImage(cutOut.previewUrl)}
+                        useLabel="Add as layer"
+                        onClose={() => setIsCuttingOut(false)}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ThumbnailEditor;
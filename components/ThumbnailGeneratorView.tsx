@@ -1,7 +1,30 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { ImageStyle, AspectRatio, voices } from '../types';
-import { generateImages, generatePromptFromImage, generateSpeech } from '../services/geminiService';
-import { PhotoIcon, SpinnerIcon, EyeIcon, DownloadIcon, CopyIcon, CheckIcon, ResetIcon, SpeakerIcon } from './icons';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AspectRatio, ImageSlot, voices } from '../types';
+import { generateImage, generateImageSlots, generatePromptFromImage, generateSpeech, scoreThumbnail } from '../services/geminiService';
+import { ThumbnailScore } from '../services/providers';
+import { PhotoIcon, SpinnerIcon, EyeIcon, DownloadIcon, CopyIcon, CheckIcon, ResetIcon, SpeakerIcon, CutIcon, LayersIcon, StarIcon } from './icons';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
+import { ImageFitOptions } from '../services/imageFit';
+import { saveToHistory } from '../services/historyStore';
+import { GenerationMetadata, describeGeneration, downloadImage, mimeTypeOf } from '../services/imageMetadata';
+import { rankScores } from '../services/thumbnailScore';
+import { ReferenceImage, MAX_REFERENCE_IMAGES, toReferencePayloads } from '../services/referenceImages';
+import { PreparedImage } from '../services/imagePreprocess';
+import { StylePreset, DEFAULT_STYLE_PRESET_ID, getStylePreset, stylePhrase, styleGuidance, styleReferencePayload } from '../services/stylePresets';
+import BatchRunner from './BatchRunner';
+import ImageInput from './ImageInput';
+import PromptEnhancer from './PromptEnhancer';
+import StylePresetPicker from './StylePresetPicker';
+import ReferenceImagesInput, { nextReferenceRole } from './ReferenceImagesInput';
+import BackgroundRemover from './BackgroundRemover';
+import ThumbnailScoreOverlay from './ThumbnailScoreOverlay';
+import SafeZoneOverlay from './SafeZoneOverlay';
+import ThumbnailEditor from './ThumbnailEditor';
+import { ThumbnailProject, createThumbnailProject, parseThumbnailProject } from '../services/thumbnailProject';
+import { ThumbnailPlatform, ThumbnailPlatformId, THUMBNAIL_PLATFORMS, DEFAULT_THUMBNAIL_PLATFORM_ID, getThumbnailPlatform, platformFit, cropGuidance } from '../services/thumbnailPlatforms';
 
 // Helper function to decode base64
 function decode(base64: string): Uint8Array {
@@ -57,7 +80,31 @@ function pcmToWavBlob(pcmData: Uint8Array): Blob {
 }
 
 
-const styles: ImageStyle[] = [ImageStyle.Realistic, ImageStyle.Ghibli, ImageStyle.ThreeD];
+// Batch rows in the platform's own ratio get its exact size; rows asking for another ratio
+// are only cropped to that ratio.
+const batchFit = (platform: ThumbnailPlatform, aspectRatio: AspectRatio): ImageFitOptions =>
+    aspectRatio === platform.aspectRatio ? platformFit(platform) : { mode: 'crop' };
+
+// Models often misspell text they paint, so the title can be left to the thumbnail editor.
+const NO_TEXT_GUIDANCE = 'Do not draw any text, letters or numbers; leave clean, uncluttered space where a title can be added later.';
+
+// `ratio` is the ratio the model is asked for, which the result may then be cropped from.
+const topicPrompt = (topic: string, style: StylePreset, platform: ThumbnailPlatform, ratio: string = platform.aspectRatio, leaveOutText = false) =>
+    [
+        `Create a visually striking, high-click-through-rate ${platform.description} in a ${stylePhrase(style)}, strictly adhering to a ${ratio} aspect ratio. The topic is: "${topic}". The image must be vibrant, high-contrast, and feature a clear, compelling subject.`,
+        platform.guidance,
+        ratio === platform.aspectRatio ? cropGuidance(platform) : '',
+        leaveOutText ? NO_TEXT_GUIDANCE : 'If the prompt implies text (like a title), make it bold and easily readable.',
+        'Do not include watermarks, channel names, or subscribe buttons.',
+        styleGuidance(style),
+    ].filter(Boolean).join(' ');
+
+type ThumbnailMode = 'single' | 'batch';
+
+const modeLabels: Record<ThumbnailMode, string> = {
+    single: 'Single',
+    batch: 'Batch',
+};
 
 interface UploadedImage {
     data: string; // raw base64
@@ -66,23 +113,53 @@ interface UploadedImage {
 }
 
 const ThumbnailGeneratorView: React.FC = () => {
+  const [mode, setMode] = useState<ThumbnailMode>('single');
   const [prompt, setPrompt] = useState<string>('');
   const [uploadedImage, setUploadedImage] = useState<UploadedImage | null>(null);
-  const [selectedStyle, setSelectedStyle] = useState<ImageStyle>(ImageStyle.Realistic);
+  const [selectedStyleId, setSelectedStyleId] = useState<string>(DEFAULT_STYLE_PRESET_ID);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [leaveOutText, setLeaveOutText] = useState<boolean>(false);
+  const [platformId, setPlatformId] = useState<ThumbnailPlatformId>(DEFAULT_THUMBNAIL_PLATFORM_ID);
+  // The platform the current results were made for, which stays put if the picker changes.
+  const [resultsPlatformId, setResultsPlatformId] = useState<ThumbnailPlatformId>(DEFAULT_THUMBNAIL_PLATFORM_ID);
+  const [showSafeZones, setShowSafeZones] = useState<boolean>(true);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isGeneratingPrompt, setIsGeneratingPrompt] = useState<boolean>(false);
   const [isCopied, setIsCopied] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [generatedImages, setGeneratedImages] = useState<string[]>([]);
+  const [error, setError] = useState<string | GenerationError | null>(null);
+  const [slots, setSlots] = useState<ImageSlot[]>([]);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
-  const [placeholderCount, setPlaceholderCount] = useState<number>(0);
+  const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
   const [viewingImage, setViewingImage] = useState<string | null>(null);
+  const [cutOutSource, setCutOutSource] = useState<{ image: string; name: string } | null>(null);
+  const [editorProject, setEditorProject] = useState<ThumbnailProject | null>(null);
+  // Critiques by thumbnail image, so they survive retries of other slots.
+  const [scores, setScores] = useState<Map<string, ThumbnailScore>>(new Map());
+  const [isScoring, setIsScoring] = useState<boolean>(false);
+  // Why a thumbnail couldn't be scored, by image; the others keep their scores.
+  const [scoreErrors, setScoreErrors] = useState<Map<string, GenerationError>>(new Map());
+  const [openScore, setOpenScore] = useState<string | null>(null);
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const speechAbortRef = useRef<AbortController | null>(null);
+  const scoreAbortRef = useRef<AbortController | null>(null);
 
   // Voice generation state
   const [selectedVoice, setSelectedVoice] = useState<string>('Charon');
   const [isGeneratingSpeech, setIsGeneratingSpeech] = useState<boolean>(false);
   const [generatedAudioUrl, setGeneratedAudioUrl] = useState<string | null>(null);
-  const [audioError, setAudioError] = useState<string | null>(null);
+  const [audioError, setAudioError] = useState<string | GenerationError | null>(null);
+
+  // Closing the generator overlay unmounts this view; stop any work still in flight.
+  useEffect(() => {
+    return () => {
+        generationAbortRef.current?.abort();
+        analysisAbortRef.current?.abort();
+        speechAbortRef.current?.abort();
+        scoreAbortRef.current?.abort();
+    };
+  }, []);
 
   // Clean up blob URL on unmount or when a new one is created
   useEffect(() => {
@@ -94,34 +171,28 @@ const ThumbnailGeneratorView: React.FC = () => {
   }, [generatedAudioUrl]);
 
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-        const reader = new FileReader();
-        reader.onloadend = async () => {
-            const fullDataUrl = reader.result as string;
-            const mimeType = fullDataUrl.substring(fullDataUrl.indexOf(':') + 1, fullDataUrl.indexOf(';'));
-            const base64Data = fullDataUrl.split(',')[1];
-            setUploadedImage({
-                data: base64Data,
-                mimeType: mimeType,
-                previewUrl: fullDataUrl,
-            });
-
-            setIsGeneratingPrompt(true);
-            setError(null);
-            setPrompt('');
-
-            try {
-                const generatedPrompt = await generatePromptFromImage(base64Data, mimeType);
-                setPrompt(generatedPrompt);
-            } catch (err: any) {
-                setError(err.message || 'Failed to generate prompt from image.');
-            } finally {
-                setIsGeneratingPrompt(false);
-            }
-        };
-        reader.readAsDataURL(file);
+  const handleImageSelected = async (image: UploadedImage) => {
+    setUploadedImage(image);
+
+    setIsGeneratingPrompt(true);
+    setError(null);
+    setPrompt('');
+
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
+    try {
+        const generatedPrompt = await generatePromptFromImage(image.data, image.mimeType, { signal: controller.signal });
+        setPrompt(generatedPrompt);
+    } catch (err: any) {
+        if (!isCancellation(err)) {
+            setError(toGenerationError(err));
+        }
+    } finally {
+        if (!controller.signal.aborted) {
+            setIsGeneratingPrompt(false);
+        }
     }
   };
 
@@ -134,79 +205,192 @@ const ThumbnailGeneratorView: React.FC = () => {
     setIsModalOpen(true);
   };
   
-  const startGeneration = useCallback(async (count: number) => {
-    setIsModalOpen(false);
-    setIsLoading(true);
-    setError(null);
-    setGeneratedImages([]);
-    setPlaceholderCount(count);
-
+  const buildRequest = useCallback((platform: ThumbnailPlatform) => {
+    const style = getStylePreset(selectedStyleId);
     const fullPrompt = uploadedImage
-      ? `Act as a professional YouTube thumbnail designer. Your task is to transform the uploaded image into a completely new, visually striking, high-click-through-rate YouTube thumbnail. The final image MUST have a strict 16:9 aspect ratio. Do not create a simple duplicate; instead, create a creative variation in a ${selectedStyle.toLowerCase()} style. Enhance colors, change the composition, or add dynamic elements to make it eye-catching. The user's text prompt is: "${prompt}". Follow these instructions to guide the transformation.`
-      : `Create a visually striking, high-click-through-rate YouTube thumbnail in a ${selectedStyle.toLowerCase()} style, strictly adhering to a 16:9 aspect ratio. The topic is: "${prompt}". The thumbnail must be vibrant, high-contrast, and feature a clear, compelling subject. If the prompt implies text (like a title), make it bold and easily readable. Do not include watermarks, channel names, or subscribe buttons.`;
+      ? [
+          `Act as a professional social media designer. Your task is to transform the uploaded image into a completely new, visually striking, high-click-through-rate ${platform.description}. The final image MUST have a strict ${platform.aspectRatio} aspect ratio. Do not create a simple duplicate; instead, create a creative variation in a ${stylePhrase(style)}. Enhance colors, change the composition, or add dynamic elements to make it eye-catching. The user's text prompt is: "${prompt}". Follow these instructions to guide the transformation.`,
+          platform.guidance,
+          cropGuidance(platform),
+          leaveOutText ? NO_TEXT_GUIDANCE : '',
+          styleGuidance(style),
+        ].filter(Boolean).join(' ')
+      : topicPrompt(prompt, style, platform, platform.aspectRatio, leaveOutText);
+    const imagePayload = uploadedImage ? { data: uploadedImage.data, mimeType: uploadedImage.mimeType } : undefined;
+    const styleReference = styleReferencePayload(style);
+    const referencePayloads = [...toReferencePayloads(references), ...(styleReference ? [styleReference] : [])];
+    const settings = { prompt, fullPrompt, style: style.name, aspectRatio: platform.aspectRatio, fit: platformFit(platform) };
+    const record = (image: string) => saveToHistory({ kind: 'thumbnail', image, ...settings, sourceImage: imagePayload, references: referencePayloads });
+    return { fullPrompt, imagePayload, referencePayloads, settings, record };
+  }, [prompt, selectedStyleId, references, uploadedImage, leaveOutText]);
+
+  // The request the current results came from, so a retried slot matches its siblings even
+  // if the controls have changed since.
+  const resultsRequestRef = useRef<ReturnType<typeof buildRequest> | null>(null);
+
+  const updateSlot = (index: number, slot: ImageSlot) => {
+    setSlots(prev => prev.map((existing, i) => i === index ? slot : existing));
+  };
 
-    try {
-        const imagePayload = uploadedImage ? { data: uploadedImage.data, mimeType: uploadedImage.mimeType } : undefined;
-        const images = await generateImages(fullPrompt, count, AspectRatio.SixteenNine, imagePayload);
-        setGeneratedImages(images);
-    } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
-    } finally {
-      setIsLoading(false);
-      setPlaceholderCount(0);
+  // The controller for the current batch; single-slot retries share it so Cancel stops them too.
+  const currentSignal = () => {
+    if (!generationAbortRef.current || generationAbortRef.current.signal.aborted) {
+        generationAbortRef.current = new AbortController();
+    }
+    return generationAbortRef.current.signal;
+  };
+
+  const runGeneration = useCallback(async (count: number) => {
+    generationAbortRef.current?.abort();
+    const signal = currentSignal();
+    setIsLoading(true);
+    setError(null);
+    setSlots(Array(count).fill({ status: 'pending' }));
+    const platform = getThumbnailPlatform(platformId);
+    setResultsPlatformId(platform.id);
+
+    const request = buildRequest(platform);
+    resultsRequestRef.current = request;
+    const { fullPrompt, imagePayload, referencePayloads, settings, record } = request;
+    const results = await generateImageSlots(fullPrompt, count, platform.aspectRatio, imagePayload, referencePayloads, (result) => {
+        if (signal.aborted) return;
+        if ('image' in result) record(result.image);
+        updateSlot(result.index, 'image' in result ? { status: 'done', image: result.image, metadata: describeGeneration(settings) } : { status: 'failed', error: result.error });
+    }, { signal, onRetryWait: setRetryWait, fit: settings.fit });
+
+    // A cancelled batch has already been cleaned up by handleCancel.
+    if (signal.aborted) return;
+    setRetryWait(null);
+
+    // Surface the recovery actions when nothing came back at all.
+    const failures = results.flatMap(result => 'error' in result ? [result.error] : []);
+    if (failures.length > 0 && failures.length === results.length) {
+        setError(failures[0]);
     }
-  }, [prompt, selectedStyle, uploadedImage]);
+    setIsLoading(false);
+  }, [buildRequest, platformId]);
+
+  const startGeneration = useCallback((count: number) => {
+    setIsModalOpen(false);
+    runGeneration(count);
+  }, [runGeneration]);
   
-  const handleRegenerate = useCallback(async () => {
-    const count = generatedImages.length;
+  const handleRegenerate = useCallback(() => {
+    const count = slots.length;
     if (count === 0) {
         handleGenerateClick();
         return;
     }
+    runGeneration(count);
+  }, [runGeneration, slots.length]);
+
+  const handleCancel = () => {
+    generationAbortRef.current?.abort();
+    setSlots(prev => prev.filter(slot => slot.status !== 'pending'));
+    setIsLoading(false);
+    setRetryWait(null);
+  };
 
-    setIsLoading(true);
-    setError(null);
-    setPlaceholderCount(count);
-    setGeneratedImages([]);
-
-
-    const fullPrompt = uploadedImage
-      ? `Act as a professional YouTube thumbnail designer. Your task is to transform the uploaded image into a completely new, visually striking, high-click-through-rate YouTube thumbnail. The final image MUST have a strict 16:9 aspect ratio. Do not create a simple duplicate; instead, create a creative variation in a ${selectedStyle.toLowerCase()} style. Enhance colors, change the composition, or add dynamic elements to make it eye-catching. The user's text prompt is: "${prompt}". Follow these instructions to guide the transformation.`
-      : `Create a visually striking, high-click-through-rate YouTube thumbnail in a ${selectedStyle.toLowerCase()} style, strictly adhering to a 16:9 aspect ratio. The topic is: "${prompt}". The thumbnail must be vibrant, high-contrast, and feature a clear, compelling subject. If the prompt implies text (like a title), make it bold and easily readable. Do not include watermarks, channel names, or subscribe buttons.`;
+  const resultsPlatform = getThumbnailPlatform(resultsPlatformId);
+  const selectedPlatform = getThumbnailPlatform(platformId);
 
+  const handleRetrySlot = async (index: number) => {
+    const signal = currentSignal();
+    updateSlot(index, { status: 'pending' });
+    const { fullPrompt, imagePayload, referencePayloads, settings, record } = resultsRequestRef.current ?? buildRequest(resultsPlatform);
     try {
-        const imagePayload = uploadedImage ? { data: uploadedImage.data, mimeType: uploadedImage.mimeType } : undefined;
-        const images = await generateImages(fullPrompt, count, AspectRatio.SixteenNine, imagePayload);
-        setGeneratedImages(images);
+        const image = await generateImage(fullPrompt, settings.aspectRatio, imagePayload, referencePayloads, index, { signal, onRetryWait: setRetryWait, fit: settings.fit });
+        if (!signal.aborted) {
+            record(image);
+            updateSlot(index, { status: 'done', image, metadata: describeGeneration(settings) });
+        }
     } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
-      setGeneratedImages([]);
+        if (!signal.aborted) {
+            updateSlot(index, { status: 'failed', error: toGenerationError(err) });
+        }
     } finally {
-      setIsLoading(false);
-      setPlaceholderCount(0);
+        setRetryWait(null);
     }
-  }, [prompt, selectedStyle, uploadedImage, generatedImages.length]);
+  };
   
+  const finishedImages = slots.flatMap(slot => slot.status === 'done' ? [slot.image] : []);
+  const scoredImages = finishedImages.filter(image => scores.has(image));
+  const scoreRanks = rankScores(scoredImages.map(image => scores.get(image)!));
+  const rankOf = (image: string) => scoreRanks[scoredImages.indexOf(image)];
+
+  // Scores every finished thumbnail that hasn't been scored yet, all in parallel.
+  const handleScore = async () => {
+    const unscored = finishedImages.filter(image => !scores.has(image));
+    if (unscored.length === 0) return;
+    // Judged against the topic the thumbnails were made for, not whatever the box says now.
+    const topic = resultsRequestRef.current?.settings.prompt ?? prompt;
+    scoreAbortRef.current?.abort();
+    const controller = new AbortController();
+    scoreAbortRef.current = controller;
+    setIsScoring(true);
+    setScoreErrors(new Map());
+
+    // Each thumbnail settles on its own, so one failure doesn't hide the scores that arrive.
+    await Promise.allSettled(unscored.map(async image => {
+        try {
+            const score = await scoreThumbnail({ data: image.split(',')[1], mimeType: mimeTypeOf(image) }, topic, resultsPlatform, { signal: controller.signal, onRetryWait: setRetryWait });
+            if (!controller.signal.aborted) {
+                setScores(prev => new Map(prev).set(image, score));
+            }
+        } catch (err) {
+            if (isCancellation(err) || controller.signal.aborted) return;
+            setScoreErrors(prev => new Map(prev).set(image, toGenerationError(err)));
+        }
+    }));
+    if (!controller.signal.aborted) {
+        setIsScoring(false);
+        setRetryWait(null);
+    }
+  };
+
+  const handleCancelScore = () => {
+    scoreAbortRef.current?.abort();
+    setIsScoring(false);
+    setRetryWait(null);
+  };
+
   const handleStartOver = () => {
+    handleCancelScore();
+    handleCancelSpeech();
+    setScores(new Map());
+    setScoreErrors(new Map());
+    setOpenScore(null);
     setPrompt('');
     setUploadedImage(null);
-    setSelectedStyle(ImageStyle.Realistic);
+    setReferences([]);
+    setSelectedStyleId(DEFAULT_STYLE_PRESET_ID);
+    setPlatformId(DEFAULT_THUMBNAIL_PLATFORM_ID);
+    setLeaveOutText(false);
     setError(null);
-    setGeneratedImages([]);
-    setPlaceholderCount(0);
+    setSlots([]);
+    resultsRequestRef.current = null;
     setIsCopied(false);
     setGeneratedAudioUrl(null);
     setAudioError(null);
     setSelectedVoice('Charon');
   };
 
-  const handleDownload = (imageSrc: string, index: number) => {
-    const link = document.createElement('a');
-    link.href = imageSrc;
-    link.download = `generated-thumbnail-${index + 1}.jpeg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleDownload = (imageSrc: string, index: number, metadata?: GenerationMetadata) => {
+    downloadImage(imageSrc, `generated-thumbnail-${index + 1}`, metadata);
+  };
+
+  // A cut-out joins the reference images, where it can be placed into the next thumbnail.
+  const handleUseCutOut = (cutOut: PreparedImage) => {
+    setReferences(prev => prev.length < MAX_REFERENCE_IMAGES ? [...prev, { ...cutOut, role: nextReferenceRole(prev) }] : prev);
+  };
+
+  const handleOpenProject = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+        setEditorProject(parseThumbnailProject(await file.text()));
+    } catch (err: any) {
+        setError(err.message);
+    }
   };
 
   const handleCopyPrompt = () => {
@@ -231,27 +415,85 @@ const ThumbnailGeneratorView: React.FC = () => {
         setGeneratedAudioUrl(null);
     }
 
+    speechAbortRef.current?.abort();
+    const controller = new AbortController();
+    speechAbortRef.current = controller;
+
     try {
-        const audioB64 = await generateSpeech(prompt, selectedVoice);
+        const audioB64 = await generateSpeech(prompt, selectedVoice, { signal: controller.signal, onRetryWait: setRetryWait });
         const pcmData = decode(audioB64);
         const wavBlob = pcmToWavBlob(pcmData);
         const audioUrl = URL.createObjectURL(wavBlob);
         setGeneratedAudioUrl(audioUrl);
     } catch (err: any) {
-        setAudioError(err.message || 'Failed to generate audio.');
+        if (!isCancellation(err)) {
+            setAudioError(toGenerationError(err));
+        }
     } finally {
-        setIsGeneratingSpeech(false);
+        if (!controller.signal.aborted) {
+            setIsGeneratingSpeech(false);
+            setRetryWait(null);
+        }
     }
   };
 
+  const handleCancelSpeech = () => {
+    speechAbortRef.current?.abort();
+    setIsGeneratingSpeech(false);
+    setRetryWait(null);
+  };
+
+  const platformPicker = (
+    <div className="grid grid-cols-2 gap-2">
+        {THUMBNAIL_PLATFORMS.map(platform => (
+            <button
+                key={platform.id}
+                onClick={() => setPlatformId(platform.id)}
+                className={`px-3 py-2 text-sm rounded-md transition flex flex-col items-center ${platformId === platform.id ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}
+            >
+                {platform.name}
+                <span className="text-[10px] font-normal opacity-70">{platform.size.width}×{platform.size.height}{platform.upscaled && ' · upscaled'}</span>
+            </button>
+        ))}
+    </div>
+  );
+
   return (
     <div className="animate-fade-in">
         <h2 className="text-3xl font-bold text-center mb-6 text-slate-800 dark:text-white">Thumbnail Creation</h2>
+        <div className="flex justify-center gap-2 mb-6">
+            {(Object.keys(modeLabels) as ThumbnailMode[]).map(option => (
+                <button key={option} onClick={() => setMode(option)} className={`px-4 py-2 text-sm rounded-md transition ${mode === option ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}>
+                    {modeLabels[option]}
+                </button>
+            ))}
+        </div>
+        {mode === 'batch' ? (
+            <div className="space-y-4">
+                <div className="bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700">
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">Platform</label>
+                    {platformPicker}
+                </div>
+                <BatchRunner
+                    buildPrompt={(topic, style, aspectRatio) => topicPrompt(topic, style, selectedPlatform, aspectRatio)}
+                    fitFor={(aspectRatio) => batchFit(selectedPlatform, aspectRatio)}
+                    defaultAspectRatio={selectedPlatform.aspectRatio}
+                />
+            </div>
+        ) : (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             {/* Controls */}
             <div className="md:col-span-1 bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700 flex flex-col space-y-6">
                 <div>
-                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">1. Upload Image (Optional)</label>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">1. Platform</label>
+                    {platformPicker}
+                    <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={showSafeZones} onChange={(e) => setShowSafeZones(e.target.checked)} />
+                        Show safe zones on the results
+                    </label>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">2. Upload Image (Optional)</label>
                     {uploadedImage ? (
                         <div className="relative group">
                             <img src={uploadedImage.previewUrl} alt="Uploaded preview" className="rounded-lg w-full h-auto object-contain max-h-48 border border-slate-300 dark:border-gray-600"/>
@@ -264,34 +506,43 @@ const ThumbnailGeneratorView: React.FC = () => {
                             </button>
                         </div>
                     ) : (
-                        <div className="relative w-full h-28 border-2 border-dashed border-slate-400 dark:border-gray-700 rounded-lg flex items-center justify-center text-slate-500 dark:text-gray-400 hover:border-slate-800 dark:hover:border-white hover:text-slate-800 dark:hover:text-white transition cursor-pointer bg-slate-100 dark:bg-gray-900">
-                            <label htmlFor="thumbnail-image-upload" className="absolute inset-0 flex items-center justify-center cursor-pointer">
-                                <span>Click to upload</span>
-                            </label>
-                            <input id="thumbnail-image-upload" type="file" className="hidden" onChange={handleImageUpload} accept="image/png, image/jpeg, image/webp" />
-                        </div>
+                        <ImageInput id="thumbnail-image-upload" onImage={handleImageSelected} onError={setError} />
+                    )}
+                    {uploadedImage && (
+                        <button
+                            onClick={() => setCutOutSource({ image: uploadedImage.previewUrl, name: 'upload-cut-out' })}
+                            className="w-full mt-2 flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800 transition"
+                            title="Cut the subject out onto a transparent background"
+                        >
+                            <CutIcon className="h-4 w-4" />
+                            Remove background
+                        </button>
                     )}
                 </div>
                 <div>
                     <div className="flex items-center justify-between mb-2">
                         <label className="block text-sm font-medium text-slate-800 dark:text-white flex items-center">
-                          2. Thumbnail Topic / Title
+                          3. Thumbnail Topic / Title
                           {isGeneratingPrompt && <SpinnerIcon />}
                         </label>
-                        <button 
-                            onClick={handleCopyPrompt} 
-                            disabled={!prompt}
-                            className={`text-xs font-semibold flex items-center transition-colors px-2 py-1 rounded-md ${
-                                isCopied 
-                                ? 'text-green-500 bg-green-100 dark:text-green-400 dark:bg-green-900/50' 
-                                : 'text-slate-600 dark:text-gray-300 hover:text-black dark:hover:text-white hover:bg-slate-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed'
-                            }`}
-                        >
-                            {isCopied ? <CheckIcon/> : <CopyIcon/>}
-                            {isCopied ? 'Copied!' : 'Copy'}
-                        </button>
+                        <div className="flex items-center gap-1">
+                            <PromptEnhancer prompt={prompt} target="thumbnail" style={getStylePreset(selectedStyleId).name} format={selectedPlatform.description} onApply={setPrompt} disabled={isGeneratingPrompt} />
+                            <button 
+                                onClick={handleCopyPrompt} 
+                                disabled={!prompt}
+                                className={`text-xs font-semibold flex items-center transition-colors px-2 py-1 rounded-md ${
+                                    isCopied 
+                                    ? 'text-green-500 bg-green-100 dark:text-green-400 dark:bg-green-900/50' 
+                                    : 'text-slate-600 dark:text-gray-300 hover:text-black dark:hover:text-white hover:bg-slate-200 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed'
+                                }`}
+                            >
+                                {isCopied ? <CheckIcon/> : <CopyIcon/>}
+                                {isCopied ? 'Copied!' : 'Copy'}
+                            </button>
+                        </div>
                     </div>
                     <textarea 
+                        ref={promptRef}
                         value={prompt}
                         onChange={(e) => setPrompt(e.target.value)}
                         placeholder={
@@ -304,20 +555,24 @@ const ThumbnailGeneratorView: React.FC = () => {
                         disabled={isGeneratingPrompt}
                         className="w-full bg-slate-100 dark:bg-gray-900 border border-slate-300 dark:border-gray-700 rounded-lg p-3 focus:ring-2 focus:ring-slate-500 dark:focus:ring-white/50 focus:outline-none transition h-28 resize-none disabled:opacity-70 disabled:cursor-wait placeholder:text-slate-400 dark:placeholder:text-gray-500"
                     />
+                    <label className="flex items-center gap-2 mt-2 text-xs text-slate-600 dark:text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={leaveOutText} onChange={(e) => setLeaveOutText(e.target.checked)} />
+                        Leave text out of the image and add the title in the editor afterwards
+                    </label>
                 </div>
                 <div>
-                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">3. Style</label>
-                    <div className="grid grid-cols-3 gap-2">
-                        {styles.map(style => (
-                            <button key={style} onClick={() => setSelectedStyle(style)} className={`px-3 py-2 text-sm rounded-md transition ${selectedStyle === style ? 'bg-slate-800 text-white dark:bg-white dark:text-black font-bold' : 'bg-slate-200 dark:bg-gray-900 text-slate-800 dark:text-white hover:bg-slate-300 dark:hover:bg-gray-800'}`}>
-                                {style === ImageStyle.ThreeD ? '3D' : style}
-                            </button>
-                        ))}
-                    </div>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">
+                        4. Reference Images <span className="font-normal text-slate-500 dark:text-gray-400">(optional)</span>
+                    </label>
+                    <ReferenceImagesInput id="thumbnail-reference-upload" references={references} onChange={setReferences} onError={setError} />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">5. Style</label>
+                    <StylePresetPicker value={selectedStyleId} onChange={setSelectedStyleId} disabled={isLoading} />
                 </div>
 
                 <div>
-                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">4. Voice</label>
+                    <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">6. Voice</label>
                     <select
                         value={selectedVoice}
                         onChange={(e) => setSelectedVoice(e.target.value)}
@@ -336,6 +591,14 @@ const ThumbnailGeneratorView: React.FC = () => {
                         {isGeneratingSpeech ? <SpinnerIcon /> : <SpeakerIcon />}
                         <span className="ml-2">{generatedAudioUrl ? 'Regenerate Audio' : 'Generate Audio'}</span>
                     </button>
+                    {isGeneratingSpeech && (
+                        <button
+                            onClick={handleCancelSpeech}
+                            className="mt-2 w-full bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-lg transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
                     {generatedAudioUrl && (
                         <div className="mt-4">
                             <audio controls src={generatedAudioUrl} className="w-full">
@@ -343,19 +606,27 @@ const ThumbnailGeneratorView: React.FC = () => {
                             </audio>
                         </div>
                     )}
-                    {audioError && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{audioError}</p>}
+                    <GenerationErrorNotice error={audioError} onRetry={handleGenerateSpeech} onRephrase={() => promptRef.current?.focus()} />
                 </div>
 
 
                 <div className="flex items-center space-x-2 pt-2">
                     <button
-                        onClick={generatedImages.length > 0 ? handleRegenerate : handleGenerateClick}
+                        onClick={slots.length > 0 ? handleRegenerate : handleGenerateClick}
                         disabled={isLoading || isGeneratingPrompt || !prompt}
                         className="w-full bg-slate-800 dark:bg-white hover:bg-slate-700 dark:hover:bg-gray-200 text-white dark:text-black font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                     >
-                        {isLoading ? <SpinnerIcon /> : (generatedImages.length > 0 ? 'Regenerate' : 'Generate')}
+                        {isLoading ? <SpinnerIcon /> : (slots.length > 0 ? 'Regenerate' : 'Generate')}
                     </button>
-                    {generatedImages.length > 0 && !isLoading && (
+                    {isLoading && (
+                        <button
+                            onClick={handleCancel}
+                            className="flex-shrink-0 bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    {slots.length > 0 && !isLoading && (
                         <button
                             onClick={handleStartOver}
                             className="flex-shrink-0 bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold p-3 rounded-lg transition-colors"
@@ -365,29 +636,95 @@ const ThumbnailGeneratorView: React.FC = () => {
                         </button>
                     )}
                 </div>
-                {error && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{error}</p>}
+                {finishedImages.length > 0 && !isLoading && (
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleScore}
+                            disabled={isScoring || scoredImages.length === finishedImages.length}
+                            className="flex-1 flex items-center justify-center gap-2 bg-slate-200 dark:bg-gray-900 hover:bg-slate-300 dark:hover:bg-gray-800 text-slate-800 dark:text-white font-semibold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Have a vision model critique and rank the thumbnails"
+                        >
+                            {isScoring ? <SpinnerIcon /> : <StarIcon className="h-4 w-4" />}
+                            {isScoring ? 'Scoring…' : scoredImages.length === finishedImages.length ? 'Scored' : 'Score'}
+                        </button>
+                        {isScoring && (
+                            <button onClick={handleCancelScore} className="text-xs underline hover:no-underline text-slate-600 dark:text-gray-300">Cancel</button>
+                        )}
+                    </div>
+                )}
+                {scoreErrors.size > 0 && !isScoring && (
+                    <GenerationErrorNotice
+                        error={`${scoreErrors.size} ${scoreErrors.size === 1 ? 'thumbnail' : 'thumbnails'} couldn't be scored. The reason is shown on each one.`}
+                        onRetry={handleScore}
+                    />
+                )}
+                <label htmlFor="thumbnail-project-upload" className="text-xs text-center text-slate-500 dark:text-gray-400 hover:text-slate-800 dark:hover:text-white cursor-pointer transition-colors">
+                    Open a saved thumbnail project
+                    <input id="thumbnail-project-upload" type="file" className="hidden" onChange={(e) => { handleOpenProject(e.target.files?.[0]); e.target.value = ''; }} accept=".json,application/json" />
+                </label>
+                <RetryWaitNotice wait={retryWait} />
+                <GenerationErrorNotice error={error} onRetry={prompt ? handleGenerateClick : undefined} onRephrase={() => promptRef.current?.focus()} />
             </div>
 
             {/* Image Display */}
             <div className="md:col-span-2 bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700 min-h-[400px] flex items-center justify-center">
-                 <div className={`grid ${generatedImages.length > 1 || placeholderCount > 1 ? 'grid-cols-2' : 'grid-cols-1'} gap-2 w-full h-full`}>
-                     {(isLoading ? Array(placeholderCount).fill('') : generatedImages).map((imgSrc, index) => (
-                        <div key={index} className="relative rounded-lg overflow-hidden aspect-video">
-                            {isLoading ? (
-                                <div className="w-full h-full flex items-center justify-center animate-pulse bg-slate-200 dark:bg-gray-900 rounded-lg aspect-video min-h-[180px]"><SpinnerIcon /></div>
+                 <div className={`grid ${slots.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} gap-2 w-full h-full`}>
+                     {slots.map((slot, index) => (
+                        <div key={index} className="relative rounded-lg overflow-hidden" style={{ aspectRatio: `${resultsPlatform.size.width} / ${resultsPlatform.size.height}` }}>
+                            {slot.status === 'pending' ? (
+                                <div className="w-full h-full flex items-center justify-center animate-pulse bg-slate-200 dark:bg-gray-900 rounded-lg"><SpinnerIcon /></div>
+                            ) : slot.status === 'failed' ? (
+                                <div className="w-full h-full flex flex-col items-center justify-center gap-3 p-4 text-center bg-red-500/10 border border-red-500/30 rounded-lg overflow-y-auto">
+                                    <p className="text-sm text-red-600 dark:text-red-400">{slot.error.message}</p>
+                                    <button
+                                        onClick={() => handleRetrySlot(index)}
+                                        className="flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-800 text-white dark:bg-white dark:text-black hover:bg-slate-700 dark:hover:bg-gray-200 transition-colors"
+                                    >
+                                        <ResetIcon />
+                                        Retry
+                                    </button>
+                                </div>
                             ) : (
                                 <>
-                                    <img src={imgSrc} alt={`Generated thumbnail ${index + 1}`} className="w-full h-full object-cover"/>
+                                    <img src={slot.image} alt={`Generated thumbnail ${index + 1}`} className="w-full h-full object-cover"/>
+                                    {showSafeZones && <SafeZoneOverlay zones={resultsPlatform.zones} />}
+                                    {scores.has(slot.image) && (
+                                        <ThumbnailScoreOverlay
+                                            score={scores.get(slot.image)!}
+                                            rank={rankOf(slot.image)}
+                                            isOpen={openScore === slot.image}
+                                            onToggle={() => setOpenScore(openScore === slot.image ? null : slot.image)}
+                                        />
+                                    )}
+                                    {scoreErrors.has(slot.image) && (
+                                        <p className="absolute top-2 left-2 max-w-[55%] truncate bg-red-600/90 text-white text-xs px-2 py-1 rounded" title={scoreErrors.get(slot.image)!.message}>
+                                            Not scored: {scoreErrors.get(slot.image)!.message}
+                                        </p>
+                                    )}
                                     <div className="absolute top-2 right-2 flex items-center gap-2">
                                         <button 
-                                            onClick={() => setViewingImage(imgSrc)} 
+                                            onClick={() => setViewingImage(slot.image)} 
                                             className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
                                             aria-label="View thumbnail"
                                         >
                                             <EyeIcon className="h-5 w-5" />
                                         </button>
                                         <button 
-                                            onClick={() => handleDownload(imgSrc, index)} 
+                                            onClick={() => setEditorProject(createThumbnailProject(slot.image, resultsPlatform.size, resultsPlatform.id))} 
+                                            className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
+                                            aria-label="Add text and layers"
+                                        >
+                                            <LayersIcon />
+                                        </button>
+                                        <button 
+                                            onClick={() => setCutOutSource({ image: slot.image, name: `generated-thumbnail-cut-out-${index + 1}` })} 
+                                            className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
+                                            aria-label="Remove background"
+                                        >
+                                            <CutIcon />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleDownload(slot.image, index, slot.metadata)} 
                                             className="bg-black/50 hover:bg-black/80 text-white rounded-full p-2 transition-all transform hover:scale-110 focus:outline-none focus:ring-2 focus:ring-white"
                                             aria-label="Download thumbnail"
                                         >
@@ -398,7 +735,7 @@ const ThumbnailGeneratorView: React.FC = () => {
                             )}
                         </div>
                      ))}
-                     {!isLoading && generatedImages.length === 0 && (
+                     {slots.length === 0 && (
                         <div className="col-span-full flex flex-col items-center justify-center text-slate-500 dark:text-gray-400 h-full min-h-[350px]">
                            <PhotoIcon />
                            <p className="mt-4">Your generated thumbnails will appear here</p>
@@ -407,6 +744,7 @@ const ThumbnailGeneratorView: React.FC = () => {
                  </div>
             </div>
         </div>
+        )}
 
         {/* Modal for image count */}
         {isModalOpen && (
@@ -436,6 +774,19 @@ const ThumbnailGeneratorView: React.FC = () => {
                 </div>
             </div>
         )}
+
+        {cutOutSource && (
+            <BackgroundRemover
+                image={cutOutSource.image}
+                downloadName={cutOutSource.name}
+                onUseCutOut={references.length < MAX_REFERENCE_IMAGES ? handleUseCutOut : undefined}
+                onClose={() => setCutOutSource(null)}
+            />
+        )}
+
+        {editorProject && (
+            <ThumbnailEditor initialProject={editorProject} onClose={() => setEditorProject(null)} />
+        )}
     </div>
   );
 };
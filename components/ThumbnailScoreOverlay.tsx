@@ -0,0 +1,54 @@
+import React from 'react';
+import { ThumbnailScore } from '../services/providers';
+import { scoreCriteria, scoreCriterionLabels } from '../services/thumbnailScore';
+
+interface ThumbnailScoreOverlayProps {
+    score: ThumbnailScore;
+    // 1 for the best of the scored thumbnails.
+    rank: number;
+    isOpen: boolean;
+    onToggle: () => void;
+}
+
+const scoreColor = (value: number) =>
+    value >= 7.5 ? 'bg-green-500' : value >= 5 ? 'bg-yellow-400' : 'bg-red-500';
+
+// Sits over a thumbnail in the results grid: a rank badge with the overall score that opens
+// the full critique, one bar per criterion followed by the suggestions.
+const ThumbnailScoreOverlay: React.FC<ThumbnailScoreOverlayProps> = ({ score, rank, isOpen, onToggle }) => (
+    <>
+        {isOpen && (
+            <div className="absolute inset-0 bg-black/85 text-white p-3 pt-12 overflow-y-auto text-xs animate-fade-in">
+                <ul className="space-y-1.5">
+                    {scoreCriteria.map(criterion => (
+                        <li key={criterion}>
+                            <div className="flex justify-between">
+                                <span>{scoreCriterionLabels[criterion]}</span>
+                                <span className="font-bold">{score[criterion]}</span>
+                            </div>
+                            <div className="h-1.5 rounded-full bg-white/20 overflow-hidden">
+                                <div className={`h-full ${scoreColor(score[criterion])}`} style={{ width: `${score[criterion] * 10}%` }} />
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+                {score.suggestions.length > 0 && (
+                    <ul className="mt-3 space-y-1 list-disc list-inside text-gray-200">
+                        {score.suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+                    </ul>
+                )}
+            </div>
+        )}
+        <button
+            onClick={onToggle}
+            className={`absolute top-2 left-2 flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-bold text-white shadow transition-transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-white ${rank === 1 ? 'bg-green-600' : 'bg-black/70'}`}
+            aria-expanded={isOpen}
+            title={isOpen ? 'Hide the critique' : 'Show the critique'}
+        >
+            <span>#{rank}</span>
+            <span className="font-normal opacity-80">{score.overall}/10</span>
+        </button>
+    </>
+);
+
+export default ThumbnailScoreOverlay;
@@ -1,7 +1,15 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { generateVideo } from '../services/geminiService';
+import { getActiveProviderId } from '../services/providers';
+import { hasApiAccess } from '../services/apiConfig';
+import { onApiKeyChange, openApiKeySettings } from '../services/apiKey';
 import { SpinnerIcon, VideoIcon, ResetIcon } from './icons';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import PromptEnhancer from './PromptEnhancer';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, InvalidApiKeyError, toGenerationError, isCancellation } from '../services/errors';
 
 type Resolution = '720p' | '1080p';
 type AspectRatio = '16:9' | '9:16';
@@ -19,35 +27,39 @@ const VideoGeneratorView: React.FC = () => {
 
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [loadingMessage, setLoadingMessage] = useState<string>('');
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | GenerationError | null>(null);
     const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
+    const promptRef = useRef<HTMLTextAreaElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
-    // Check for API key on component mount
+    // Closing the generator overlay unmounts this view; stop polling Veo right away.
     useEffect(() => {
-        const checkApiKey = async () => {
-            try {
-                // `window.aistudio` is globally available in this environment
-                const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-                setHasSelectedKey(hasKey);
-            } catch (e) {
-                console.error("aistudio context not available.", e);
-                setHasSelectedKey(false); // Assume no key if context fails
+        return () => abortRef.current?.abort();
+    }, []);
+
+    // Revoke the video blob URL when it is replaced or the view unmounts.
+    useEffect(() => {
+        return () => {
+            if (generatedVideoUrl) {
+                URL.revokeObjectURL(generatedVideoUrl);
             }
         };
+    }, [generatedVideoUrl]);
+
+    // Check for an API key on mount, and again whenever one is saved or removed in Settings
+    useEffect(() => {
+        const checkApiKey = () => {
+            // The local stand-in backend needs no key.
+            setHasSelectedKey(getActiveProviderId() === 'local' || hasApiAccess());
+            setError(null);
+        };
         checkApiKey();
+        return onApiKeyChange(checkApiKey);
     }, []);
     
-    const handleSelectKey = async () => {
-        try {
-            await (window as any).aistudio.openSelectKey();
-            // Optimistically set to true to avoid race conditions.
-            // If the key is invalid, the API call will fail and we'll reset this.
-            setHasSelectedKey(true);
-            setError(null); // Clear previous errors
-        } catch (e) {
-            console.error("Failed to open API key selection:", e);
-            setError("Could not open the API key selection dialog.");
-        }
+    const handleSelectKey = () => {
+        openApiKeySettings();
     };
 
     const startGeneration = useCallback(async () => {
@@ -60,28 +72,45 @@ const VideoGeneratorView: React.FC = () => {
         setError(null);
         setGeneratedVideoUrl(null);
 
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+
         try {
             const videoUrl = await generateVideo(
                 prompt,
                 selectedResolution,
                 selectedRatio,
-                (message) => setLoadingMessage(message)
+                (message) => setLoadingMessage(message),
+                { signal: controller.signal, onRetryWait: setRetryWait }
             );
             setGeneratedVideoUrl(videoUrl);
         } catch (err: any) {
-            // Per Veo guidelines, this error indicates an API key issue.
-            if (err.message && err.message.includes('Requested entity was not found')) {
-                setError("API Key error. Please click 'Select API Key' and choose a valid key with Veo access and billing enabled.");
+            if (isCancellation(err)) {
+                return;
+            }
+            const generationError = toGenerationError(err);
+            setError(generationError);
+            // Per Veo guidelines, a rejected key means the user must pick another one.
+            if (generationError instanceof InvalidApiKeyError) {
                 setHasSelectedKey(false);
-            } else {
-                setError(err.message || 'An unknown error occurred.');
             }
         } finally {
-            setIsLoading(false);
-            setLoadingMessage('');
+            if (!controller.signal.aborted) {
+                setIsLoading(false);
+                setLoadingMessage('');
+                setRetryWait(null);
+            }
         }
     }, [prompt, selectedResolution, selectedRatio]);
 
+    const handleCancel = () => {
+        abortRef.current?.abort();
+        setIsLoading(false);
+        setLoadingMessage('');
+        setRetryWait(null);
+    };
+
     const handleStartOver = () => {
         setPrompt('');
         setSelectedResolution('720p');
@@ -98,7 +127,7 @@ const VideoGeneratorView: React.FC = () => {
         <div className="md:col-span-3 bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700 flex flex-col items-center justify-center text-center">
             <h3 className="text-xl font-bold text-slate-800 dark:text-white mb-3">API Key Required for Veo</h3>
             <p className="text-slate-600 dark:text-gray-400 mb-6 max-w-md">
-                Video generation with Veo requires you to select your own API key. Ensure your project has billing enabled to use this feature.
+                Video generation with Veo requires your own API key. Add it in Settings → API Key, and ensure your project has billing enabled to use this feature.
                  <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-cyan-600 dark:text-cyan-400 hover:underline ml-1">Learn more</a>.
             </p>
             <button
@@ -107,6 +136,7 @@ const VideoGeneratorView: React.FC = () => {
             >
                 Select API Key
             </button>
+            <GenerationErrorNotice error={error} className="max-w-md text-left" />
         </div>
     );
 
@@ -120,8 +150,12 @@ const VideoGeneratorView: React.FC = () => {
                         {/* Controls */}
                         <div className="md:col-span-1 bg-white/60 dark:bg-gray-900/60 backdrop-blur-sm p-6 rounded-xl border border-slate-200 dark:border-gray-700 flex flex-col space-y-6">
                             <div>
-                                <label className="block text-sm font-medium text-slate-800 dark:text-white mb-2">1. Your Prompt</label>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block text-sm font-medium text-slate-800 dark:text-white">1. Your Prompt</label>
+                                    <PromptEnhancer prompt={prompt} target="video" onApply={setPrompt} disabled={isLoading} />
+                                </div>
                                 <textarea
+                                    ref={promptRef}
                                     value={prompt}
                                     onChange={(e) => setPrompt(e.target.value)}
                                     placeholder="e.g., A neon hologram of a cat driving at top speed"
@@ -157,6 +191,14 @@ const VideoGeneratorView: React.FC = () => {
                                 >
                                     {isLoading ? <SpinnerIcon /> : 'Generate Video'}
                                 </button>
+                                {isLoading && (
+                                    <button
+                                        onClick={handleCancel}
+                                        className="flex-shrink-0 bg-slate-500 hover:bg-slate-600 dark:bg-gray-600 dark:hover:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
                                 {generatedVideoUrl && !isLoading && (
                                      <button
                                         onClick={handleStartOver}
@@ -167,7 +209,12 @@ const VideoGeneratorView: React.FC = () => {
                                     </button>
                                 )}
                             </div>
-                            {error && <p className="text-red-500 dark:text-red-400 text-sm mt-2">{error}</p>}
+                            <GenerationErrorNotice
+                                error={error}
+                                onRetry={prompt ? startGeneration : undefined}
+                                onRephrase={() => promptRef.current?.focus()}
+                                onSelectKey={handleSelectKey}
+                            />
                         </div>
 
                         {/* Video Display */}
@@ -177,6 +224,7 @@ const VideoGeneratorView: React.FC = () => {
                                     <SpinnerIcon />
                                     <p className="mt-4 text-slate-600 dark:text-gray-400 animate-pulse">{loadingMessage || 'Initializing...'}</p>
                                     <p className="mt-2 text-sm text-slate-500 dark:text-gray-500">Video generation may take several minutes.</p>
+                                    <RetryWaitNotice wait={retryWait} className="mt-4" />
                                 </div>
                             ) : generatedVideoUrl ? (
                                 <div className="w-full">
@@ -3,6 +3,10 @@ import React, { useState, useEffect, useRef } from 'react';
 import { VoiceOption } from '../types';
 import { SpinnerIcon, PlusIcon, SpeakerIcon, TrashIcon, CheckIcon } from './icons';
 import { generateSpeech } from '../services/geminiService';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
 
 
 // Helper function to decode base64
@@ -82,10 +86,36 @@ const VoiceCloneView: React.FC<VoiceCloneViewProps> = ({ currentVoice, onVoiceSe
     const [newVoiceName, setNewVoiceName] = useState('');
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | GenerationError | null>(null);
+    const [failedVoice, setFailedVoice] = useState<VoiceOption | null>(null);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
     const [playingVoice, setPlayingVoice] = useState<string | null>(null);
     const audioRef = useRef<HTMLAudioElement | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Cancels a sample that is still being generated and stops one that is playing.
+    const stopSample = () => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        if (audioRef.current) {
+            audioRef.current.pause();
+            URL.revokeObjectURL(audioRef.current.src);
+            audioRef.current = null;
+        }
+        setPlayingVoice(null);
+    };
+
+    // Cleanup on unmount
+    useEffect(() => {
+        return () => {
+            abortRef.current?.abort();
+            if (audioRef.current) {
+                audioRef.current.pause();
+                URL.revokeObjectURL(audioRef.current.src);
+            }
+        };
+    }, []);
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
@@ -147,10 +177,14 @@ const VoiceCloneView: React.FC<VoiceCloneViewProps> = ({ currentVoice, onVoiceSe
         
         setPlayingVoice(voice.id);
         setError(null);
+        setFailedVoice(null);
+        const controller = new AbortController();
+        abortRef.current = controller;
         try {
             // Since we can't use the actual cloned voice, we use a pre-built one for the sample audio.
             const text = `This is a sample of the voice named ${voice.name}.`;
-            const audioB64 = await generateSpeech(text, 'Kore');
+            const audioB64 = await generateSpeech(text, 'Kore', { signal: controller.signal, onRetryWait: setRetryWait });
+            setRetryWait(null);
             const pcmData = decode(audioB64);
             const wavBlob = pcmToWavBlob(pcmData);
             const audioUrl = URL.createObjectURL(wavBlob);
@@ -169,7 +203,10 @@ const VoiceCloneView: React.FC<VoiceCloneViewProps> = ({ currentVoice, onVoiceSe
             audio.onerror = () => { onEnd(); };
 
         } catch (err: any) {
-            setError('Could not play audio sample.');
+            setRetryWait(null);
+            if (isCancellation(err)) return;
+            setError(toGenerationError(err));
+            setFailedVoice(voice);
             console.error(err);
             setPlayingVoice(null);
         }
@@ -197,7 +234,8 @@ const VoiceCloneView: React.FC<VoiceCloneViewProps> = ({ currentVoice, onVoiceSe
                 <button onClick={handleClone} disabled={isLoading || !selectedFile || !newVoiceName.trim()} className="mt-4 w-full bg-slate-800 dark:bg-white hover:bg-slate-700 dark:hover:bg-gray-200 text-white dark:text-black font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center">
                     {isLoading ? <SpinnerIcon /> : 'Create Clone'}
                 </button>
-                 {error && <p className="text-red-500 dark:text-red-400 text-sm mt-2 text-center">{error}</p>}
+                 <RetryWaitNotice wait={retryWait} />
+                 <GenerationErrorNotice error={error} onRetry={failedVoice ? () => playSample(failedVoice) : undefined} className="text-center" />
             </div>
 
             <div>
@@ -214,7 +252,7 @@ const VoiceCloneView: React.FC<VoiceCloneViewProps> = ({ currentVoice, onVoiceSe
                                      {currentVoice === voice.id && <div className="text-cyan-500 dark:text-cyan-400 ml-2 flex-shrink-0"><CheckIcon className="h-6 w-6" /></div>}
                                 </div>
                                 <div className="flex items-center justify-end gap-2 mt-4">
-                                     <button onClick={(e) => { e.stopPropagation(); playSample(voice); }} disabled={!!playingVoice} className="bg-slate-200 dark:bg-gray-800 p-2 rounded-full hover:bg-slate-300 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"><SpeakerIcon /></button>
+                                     <button onClick={(e) => { e.stopPropagation(); if (playingVoice === voice.id) { stopSample(); } else { playSample(voice); } }} disabled={!!playingVoice && playingVoice !== voice.id} className="bg-slate-200 dark:bg-gray-800 p-2 rounded-full hover:bg-slate-300 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors" aria-label={playingVoice === voice.id ? `Stop sample for ${voice.name}` : `Play sample for ${voice.name}`}>{playingVoice === voice.id ? <SpinnerIcon /> : <SpeakerIcon />}</button>
                                      <button onClick={(e) => { e.stopPropagation(); handleDelete(voice.id); }} className="bg-red-500/10 hover:bg-red-500/20 text-red-600 dark:text-red-400 dark:hover:text-red-300 p-2 rounded-full transition-colors"><TrashIcon /></button>
                                 </div>
                             </div>
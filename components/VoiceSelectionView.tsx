@@ -3,6 +3,10 @@ import React, { useState, useRef, useEffect } from 'react';
 import { generateSpeech } from '../services/geminiService';
 import { voices, VoiceOption } from '../types';
 import { SpeakerIcon, SpinnerIcon, CheckIcon } from './icons';
+import GenerationErrorNotice from './GenerationErrorNotice';
+import RetryWaitNotice from './RetryWaitNotice';
+import { RetryWait } from '../services/requestScheduler';
+import { GenerationError, toGenerationError, isCancellation } from '../services/errors';
 
 interface VoiceSelectionViewProps {
   currentVoice: string;
@@ -64,8 +68,23 @@ function pcmToWavBlob(pcmData: Uint8Array): Blob {
 
 const VoiceSelectionView: React.FC<VoiceSelectionViewProps> = ({ currentVoice, onVoiceSelect }) => {
     const [playingVoice, setPlayingVoice] = useState<string | null>(null);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | GenerationError | null>(null);
+    const [failedVoice, setFailedVoice] = useState<VoiceOption | null>(null);
+    const [retryWait, setRetryWait] = useState<RetryWait | null>(null);
     const audioRef = useRef<HTMLAudioElement | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Cancels a sample that is still being generated and stops one that is playing.
+    const stopSample = () => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+        if (audioRef.current) {
+            audioRef.current.pause();
+            URL.revokeObjectURL(audioRef.current.src);
+            audioRef.current = null;
+        }
+        setPlayingVoice(null);
+    };
 
     const playSample = async (voice: VoiceOption) => {
         if (playingVoice) return; // Don't allow multiple plays at once
@@ -79,9 +98,13 @@ const VoiceSelectionView: React.FC<VoiceSelectionViewProps> = ({ currentVoice, o
         
         setPlayingVoice(voice.id);
         setError(null);
+        setFailedVoice(null);
+        const controller = new AbortController();
+        abortRef.current = controller;
         try {
             const text = `Hello, this is what ${voice.name.toLowerCase()} sounds like.`;
-            const audioB64 = await generateSpeech(text, voice.id);
+            const audioB64 = await generateSpeech(text, voice.id, { signal: controller.signal, onRetryWait: setRetryWait });
+            setRetryWait(null);
             
             const pcmData = decode(audioB64);
             const wavBlob = pcmToWavBlob(pcmData);
@@ -106,7 +129,10 @@ const VoiceSelectionView: React.FC<VoiceSelectionViewProps> = ({ currentVoice, o
             };
 
         } catch (err: any) {
-            setError('Could not play audio sample. Please try again.');
+            setRetryWait(null);
+            if (isCancellation(err)) return;
+            setError(toGenerationError(err));
+            setFailedVoice(voice);
             console.error(err);
             setPlayingVoice(null);
         }
@@ -115,6 +141,7 @@ const VoiceSelectionView: React.FC<VoiceSelectionViewProps> = ({ currentVoice, o
     // Cleanup on unmount
     useEffect(() => {
         return () => {
+            abortRef.current?.abort();
             if (audioRef.current) {
                 audioRef.current.pause();
                 URL.revokeObjectURL(audioRef.current.src);
@@ -141,11 +168,15 @@ const VoiceSelectionView: React.FC<VoiceSelectionViewProps> = ({ currentVoice, o
                     <button
                         onClick={(e) => {
                             e.stopPropagation();
-                            playSample(voice);
+                            if (playingVoice === voice.id) {
+                                stopSample();
+                            } else {
+                                playSample(voice);
+                            }
                         }}
-                        disabled={!!playingVoice}
+                        disabled={!!playingVoice && playingVoice !== voice.id}
                         className="bg-slate-200 dark:bg-gray-800 p-3 rounded-full hover:bg-slate-300 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-wait transition-colors"
-                        aria-label={`Play sample for ${voice.name}`}
+                        aria-label={playingVoice === voice.id ? `Stop sample for ${voice.name}` : `Play sample for ${voice.name}`}
                     >
                         {playingVoice === voice.id ? <SpinnerIcon /> : <SpeakerIcon />}
                     </button>
@@ -162,7 +193,12 @@ const VoiceSelectionView: React.FC<VoiceSelectionViewProps> = ({ currentVoice, o
     return (
         <div className="animate-fade-in">
             <h2 className="text-3xl font-bold text-center mb-8 text-slate-800 dark:text-white">Select a Voice</h2>
-            {error && <p className="text-center text-red-500 dark:text-red-400 mb-4">{error}</p>}
+            <RetryWaitNotice wait={retryWait} className="max-w-4xl mx-auto mb-4" />
+            <GenerationErrorNotice
+                error={error}
+                onRetry={failedVoice ? () => playSample(failedVoice) : undefined}
+                className="max-w-4xl mx-auto mb-4"
+            />
             
             <div>
                  <h3 className="text-xl font-bold text-center mb-6 text-slate-700 dark:text-gray-300">Pre-built Voices</h3>
@@ -22,3 +22,8 @@ export { default as EyeIcon } from './EyeIcon';
 export { default as EyeSlashIcon } from './EyeSlashIcon';
 // FIX: Export TrashIcon to resolve module export error.
 export { default as TrashIcon } from './TrashIcon';
+export { default as HistoryIcon } from './HistoryIcon';
+export { default as StarIcon } from './StarIcon';
+export { default as SendIcon } from './SendIcon';
+export { default as CutIcon } from './CutIcon';
+export { default as LayersIcon } from './LayersIcon';
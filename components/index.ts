@@ -4,3 +4,4 @@ export { default as ImageGeneratorView } from './ImageGeneratorView';
 export { default as ParticleRing } from './ParticleRing';
 export { default as VoiceSelectionView } from './VoiceSelectionView';
 export { default as ImageChatView } from './ImageChatView';
+export { default as HistoryView } from './HistoryView';
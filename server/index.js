@@ -0,0 +1,158 @@
+// Companion server that keeps the Gemini API key off the client.
+//
+// It exposes two things under /genai:
+//   - a pass-through to the Gemini REST API for the endpoints the app uses (image, text
+//     and speech generation, Veo video generation, operation polling and file download).
+//     The browser's SDK points its baseUrl here; the real key is added on the way out.
+//   - POST /genai/live-token, which mints a single-use ephemeral token for `ai.live.connect`.
+//
+// Run with: GEMINI_API_KEY=... npm run server
+
+import http from 'node:http';
+import { Readable, pipeline } from 'node:stream';
+import { GoogleGenAI } from '@google/genai';
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY;
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const PREFIX = '/genai';
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+// Only needed when the app is served from a different origin than this server.
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+
+if (!API_KEY) {
+    console.error('GEMINI_API_KEY is not set.');
+    process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+// Everything else is rejected, so the proxy cannot be used as a general-purpose key.
+const ALLOWED_ROUTES = [
+    { method: 'POST', pattern: /^\/v1beta\/models\/gemini-[\w.-]+:generateContent$/ },
+    { method: 'POST', pattern: /^\/v1beta\/models\/veo-[\w.-]+:predictLongRunning$/ },
+    { method: 'GET', pattern: /^\/v1beta\/models\/veo-[\w.-]+\/operations\/[\w-]+$/ },
+    { method: 'GET', pattern: /^\/v1beta\/files\/[\w-]+:download$/ },
+];
+
+const setCorsHeaders = (res) => {
+    if (!ALLOWED_ORIGIN) return;
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, x-goog-api-key, x-goog-api-client');
+};
+
+const sendJson = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const forward = async (req, res, path, search) => {
+    // Stop the upstream request if the client goes away before the response is complete.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    const body = req.method === 'POST' ? await readBody(req) : undefined;
+    const upstream = await fetch(`${UPSTREAM}${path}${search}`, {
+        signal: controller.signal,
+        method: req.method,
+        headers: {
+            'Content-Type': req.headers['content-type'] || 'application/json',
+            'x-goog-api-key': API_KEY,
+        },
+        body,
+        redirect: 'follow',
+    });
+
+    const headers = { 'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream' };
+    // Let the client's request scheduler honour the server's backoff hint.
+    const retryAfter = upstream.headers.get('retry-after');
+    if (retryAfter) headers['Retry-After'] = retryAfter;
+    res.writeHead(upstream.status, headers);
+
+    if (upstream.body) {
+        // pipeline destroys both streams on failure, so a broken upstream ends the response
+        // instead of crashing the process.
+        pipeline(Readable.fromWeb(upstream.body), res, (error) => {
+            if (error && !controller.signal.aborted) {
+                console.error(`Proxy stream error for ${req.method} ${path}:`, error);
+            }
+        });
+    } else {
+        res.end();
+    }
+};
+
+const mintLiveToken = async (res) => {
+    const now = Date.now();
+    const token = await ai.authTokens.create({
+        config: {
+            uses: 1,
+            expireTime: new Date(now + 30 * 60 * 1000).toISOString(),
+            newSessionExpireTime: new Date(now + 60 * 1000).toISOString(),
+            httpOptions: { apiVersion: 'v1alpha' },
+        },
+    });
+    sendJson(res, 200, { token: token.name, expireTime: token.expireTime });
+};
+
+const server = http.createServer(async (req, res) => {
+    setCorsHeaders(res);
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    if (!url.pathname.startsWith(PREFIX)) {
+        sendJson(res, 404, { error: { message: 'Not found' } });
+        return;
+    }
+    const path = url.pathname.slice(PREFIX.length);
+
+    try {
+        if (req.method === 'POST' && path === '/live-token') {
+            await mintLiveToken(res);
+            return;
+        }
+        if (!ALLOWED_ROUTES.some(route => route.method === req.method && route.pattern.test(path))) {
+            sendJson(res, 403, { error: { message: `Route not allowed: ${req.method} ${path}` } });
+            return;
+        }
+        // The SDK may send the placeholder key as a query parameter; never pass it upstream.
+        url.searchParams.delete('key');
+        await forward(req, res, path, url.search);
+    } catch (error) {
+        // The client disconnected and the upstream request was aborted; nobody is listening.
+        if (error.name === 'AbortError') return;
+        console.error(`Proxy error for ${req.method} ${path}:`, error);
+        if (!res.headersSent) {
+            sendJson(res, error.status || 502, { error: { message: error.message || 'Proxy error' } });
+        } else {
+            res.end();
+        }
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Gemini proxy listening on http://localhost:${PORT}${PREFIX}`);
+});
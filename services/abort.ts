@@ -0,0 +1,25 @@
+import { CancelledError } from './errors';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+        throw new CancelledError("The request was cancelled.");
+    }
+};
+
+// A `setTimeout` wait that rejects with a `CancelledError` as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancelledError("The request was cancelled."));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new CancelledError("The request was cancelled."));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
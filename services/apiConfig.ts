@@ -0,0 +1,66 @@
+import { GoogleGenAI } from "@google/genai";
+import { MissingApiKeyError, httpError, toGenerationError } from './errors';
+import { getStoredApiKey } from './apiKey';
+
+// How the browser reaches Gemini.
+// - direct: the key is baked into the bundle at build time (VITE_API_KEY) and requests go
+//   straight to Google. Fine for local development only; anyone can read the key.
+// - proxy: the bundle holds no key. Requests go to the companion server in `server/`,
+//   which adds the key server-side and mints short-lived tokens for Live sessions.
+// Select with VITE_API_MODE=proxy (and optionally VITE_PROXY_URL) at build time.
+// A key the user saved in Settings always wins: requests then go direct with that key.
+
+export type ApiMode = 'direct' | 'proxy';
+
+// The SDK refuses to build a client without a key; the proxy replaces this with the real one.
+const PROXY_PLACEHOLDER_KEY = 'proxy';
+
+export const getApiMode = (): ApiMode =>
+    (process.env.API_MODE === 'proxy' && !getStoredApiKey() ? 'proxy' : 'direct');
+
+const getDirectApiKey = (): string | undefined => getStoredApiKey() || process.env.API_KEY;
+
+// Whether Gemini calls can be made at all without asking the user for a key.
+export const hasApiAccess = (): boolean => getApiMode() === 'proxy' || !!getDirectApiKey();
+
+export const getProxyBaseUrl = (): string =>
+    new URL(process.env.PROXY_URL || '/genai', window.location.origin).toString().replace(/\/$/, '');
+
+export const createGenAIClient = (): GoogleGenAI => {
+    if (getApiMode() === 'proxy') {
+        return new GoogleGenAI({ apiKey: PROXY_PLACEHOLDER_KEY, httpOptions: { baseUrl: getProxyBaseUrl() } });
+    }
+    const apiKey = getDirectApiKey();
+    if (!apiKey) {
+        throw new MissingApiKeyError("API Key not found. Add your Gemini key in Settings → API Key.");
+    }
+    return new GoogleGenAI({ apiKey });
+};
+
+// Turns a file URI returned by the API (e.g. a Veo video) into a URL the browser can fetch.
+export const resolveFileUrl = (uri: string): string => {
+    if (getApiMode() === 'proxy') {
+        const upstream = new URL(uri);
+        return `${getProxyBaseUrl()}${upstream.pathname}${upstream.search}`;
+    }
+    return `${uri}&key=${getDirectApiKey()}`;
+};
+
+// A client for `ai.live.connect`. In proxy mode it authenticates with a single-use
+// ephemeral token minted by the server, so the long-lived key never reaches the browser.
+export const createLiveClient = async (): Promise<GoogleGenAI> => {
+    if (getApiMode() === 'direct') {
+        return createGenAIClient();
+    }
+    try {
+        const response = await fetch(`${getProxyBaseUrl()}/live-token`, { method: 'POST' });
+        if (!response.ok) {
+            throw httpError(response, `Could not get a Live session token (status: ${response.status}).`);
+        }
+        const { token } = await response.json();
+        // Ephemeral tokens are only accepted on the v1alpha API.
+        return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+    } catch (error) {
+        throw toGenerationError(error);
+    }
+};
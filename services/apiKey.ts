@@ -0,0 +1,123 @@
+import { GoogleGenAI } from "@google/genai";
+import { GEMINI_MODELS } from './providers/geminiProvider';
+import { GenerationError, InvalidApiKeyError, toGenerationError } from './errors';
+
+// A Gemini key the user pasted into Settings. It lives only in this browser and takes
+// precedence over the build-time key and the proxy, so each tester spends their own quota.
+
+const KEY_STORAGE_KEY = 'spark-api-key';
+const ACCESS_STORAGE_KEY = 'spark-api-key-access';
+const OPEN_SETTINGS_EVENT = 'spark:open-api-key-settings';
+const CHANGE_EVENT = 'spark:api-key-changed';
+
+// One feature per model the app uses.
+export type KeyFeature = keyof typeof GEMINI_MODELS;
+
+export interface KeyAccess {
+    // `null` means the check could not tell (e.g. a network error).
+    features: Record<KeyFeature, boolean | null>;
+    checkedAt: number;
+}
+
+export const keyFeatureLabels: Record<KeyFeature, string> = {
+    text: 'Text & prompts',
+    image: 'Image generation',
+    speech: 'Text-to-speech',
+    video: 'Veo video',
+};
+
+// Read on every request, so blocked storage (private modes, sandboxed iframes) must not throw.
+export const getStoredApiKey = (): string | null => {
+    try {
+        return localStorage.getItem(KEY_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const getStoredKeyAccess = (): KeyAccess | null => {
+    try {
+        const raw = localStorage.getItem(ACCESS_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+};
+
+export const saveApiKey = (key: string, access: KeyAccess) => {
+    try {
+        localStorage.setItem(KEY_STORAGE_KEY, key);
+        localStorage.setItem(ACCESS_STORAGE_KEY, JSON.stringify(access));
+    } catch (error) {
+        console.error("Could not save the API key:", error);
+        throw new GenerationError("This browser is blocking site storage, so the key can't be saved.");
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+export const clearApiKey = () => {
+    try {
+        localStorage.removeItem(KEY_STORAGE_KEY);
+        localStorage.removeItem(ACCESS_STORAGE_KEY);
+    } catch (error) {
+        console.error("Could not remove the API key:", error);
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// Lets views react when the key is added or removed (in this tab or another one).
+export const onApiKeyChange = (listener: () => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === KEY_STORAGE_KEY) listener();
+    };
+    window.addEventListener(CHANGE_EVENT, listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+        window.removeEventListener(CHANGE_EVENT, listener);
+        window.removeEventListener('storage', handleStorage);
+    };
+};
+
+// The settings panel lives in App; anything that needs a key (e.g. an error's
+// "Select API key" action) asks for it to be opened.
+export const openApiKeySettings = () => {
+    window.dispatchEvent(new Event(OPEN_SETTINGS_EVENT));
+};
+
+export const onOpenApiKeySettings = (listener: () => void): (() => void) => {
+    window.addEventListener(OPEN_SETTINGS_EVENT, listener);
+    return () => window.removeEventListener(OPEN_SETTINGS_EVENT, listener);
+};
+
+// Checks a key without spending quota: model metadata lookups are free. The text model
+// proves the key itself works; the others tell us which features it can reach. Billing-gated
+// models such as Veo can still fail at generation time if the project has no billing.
+export const validateApiKey = async (key: string, signal?: AbortSignal): Promise<KeyAccess> => {
+    const ai = new GoogleGenAI({ apiKey: key });
+    const probe = (model: string) => ai.models.get({ model, config: { abortSignal: signal } });
+
+    try {
+        await probe(GEMINI_MODELS.text);
+    } catch (error) {
+        const generationError = toGenerationError(error);
+        if (generationError.status === 400 || generationError instanceof InvalidApiKeyError) {
+            throw new InvalidApiKeyError("This API key was rejected. Check that it was copied in full.", { status: generationError.status, cause: error });
+        }
+        throw generationError;
+    }
+
+    const features: KeyAccess['features'] = { text: true, image: null, speech: null, video: null };
+    await Promise.all((['image', 'speech', 'video'] as const).map(async feature => {
+        try {
+            await probe(GEMINI_MODELS[feature]);
+            features[feature] = true;
+        } catch (error) {
+            const generationError = toGenerationError(error);
+            if (generationError.kind === 'cancelled') throw generationError;
+            // A 403/404 means the model isn't available to this key; anything else is inconclusive.
+            features[feature] = generationError.status === 403 || generationError.status === 404 ? false : null;
+        }
+    }));
+
+    return { features, checkedAt: Date.now() };
+};
@@ -0,0 +1,140 @@
+import { loadImage, createCanvas } from './canvas';
+import { GenerationError } from './errors';
+
+// Background removal in two steps. The image model repaints the picture with the subject on a
+// flat chroma-key screen (see `isolateSubject` in geminiService); this module keys that screen
+// out locally into a true alpha channel. Keying locally means the edges can be re-tuned
+// without another request.
+
+export interface CutOutSettings {
+    // How far from the screen colour a pixel must be before it counts as subject, 0–1.
+    tolerance: number;
+    // Blur radius in pixels applied to the alpha channel to smooth jagged edges.
+    feather: number;
+}
+
+export const DEFAULT_CUT_OUT_SETTINGS: CutOutSettings = { tolerance: 0.3, feather: 1 };
+
+// Width of the soft band between fully keyed and fully kept, relative to the screen's chroma.
+const EDGE_SOFTNESS = 0.25;
+// A screen greyer than this (in chroma units, 0–255) isn't a screen; keying it would eat the subject.
+const MIN_SCREEN_CHROMA = 60;
+// Alpha this close to 0 or 1 is snapped, so noise on the screen doesn't leave faint specks.
+const ALPHA_SNAP = 0.04;
+
+type Rgb = [number, number, number];
+
+// Chroma of a colour as (Cb, Cr) around zero, which ignores brightness: shadows and
+// highlights on the screen key out like the rest of it.
+const chroma = (r: number, g: number, b: number): [number, number] => [
+    -0.168736 * r - 0.331264 * g + 0.5 * b,
+    0.5 * r - 0.418688 * g - 0.081312 * b,
+];
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+// The screen colour as the model actually painted it, read from the picture's border, which
+// the subject rarely touches all the way round.
+const estimateScreenColor = (pixels: Uint8ClampedArray, width: number, height: number): Rgb => {
+    const channels: [number[], number[], number[]] = [[], [], []];
+    const sample = (x: number, y: number) => {
+        const offset = (y * width + x) * 4;
+        for (let c = 0; c < 3; c++) channels[c].push(pixels[offset + c]);
+    };
+    const step = Math.max(1, Math.floor(Math.max(width, height) / 256));
+    for (let x = 0; x < width; x += step) {
+        sample(x, 0);
+        sample(x, height - 1);
+    }
+    for (let y = 0; y < height; y += step) {
+        sample(0, y);
+        sample(width - 1, y);
+    }
+    return channels.map(median) as Rgb;
+};
+
+// Separable box blur of a single-channel image, used to feather the matte.
+const blur = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+    if (radius <= 0) return values;
+    const pass = (source: Float32Array, horizontal: boolean) => {
+        const result = new Float32Array(source.length);
+        const [outer, inner] = horizontal ? [height, width] : [width, height];
+        for (let o = 0; o < outer; o++) {
+            for (let i = 0; i < inner; i++) {
+                let sum = 0;
+                let count = 0;
+                for (let k = Math.max(0, i - radius); k <= Math.min(inner - 1, i + radius); k++) {
+                    sum += source[horizontal ? o * width + k : k * width + o];
+                    count++;
+                }
+                result[horizontal ? o * width + i : i * width + o] = sum / count;
+            }
+        }
+        return result;
+    };
+    return pass(pass(values, true), false);
+};
+
+// Keys the screen out of `screenUrl` and returns a transparent PNG data URL at the size of
+// `originalUrl`, since image models don't always keep the dimensions. Along the edges the
+// screen colour is unmixed from the subject's and any remaining colour spill is removed, so
+// the cut-out doesn't carry a green (or magenta) fringe onto whatever it is placed over.
+export const cutOutSubject = async (screenUrl: string, originalUrl: string, settings: CutOutSettings = DEFAULT_CUT_OUT_SETTINGS): Promise<string> => {
+    const [screen, original] = await Promise.all([loadImage(screenUrl), loadImage(originalUrl)]);
+    const { width, height } = original;
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(screen, 0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const pixels = imageData.data;
+
+    const key = estimateScreenColor(pixels, width, height);
+    const [keyCb, keyCr] = chroma(...key);
+    const keyChroma = Math.hypot(keyCb, keyCr);
+    if (keyChroma < MIN_SCREEN_CHROMA) {
+        throw new GenerationError("The model didn't put the subject on a plain coloured background, so it can't be cut out cleanly. Try again.");
+    }
+
+    // The screen's strong channels (green, or red and blue for magenta) and the rest; spill
+    // is whatever the strong channels exceed the others by.
+    const strong = [0, 1, 2].filter(c => key[c] > 127);
+    const weak = [0, 1, 2].filter(c => key[c] <= 127);
+
+    const inner = keyChroma * settings.tolerance;
+    const outer = inner + keyChroma * EDGE_SOFTNESS;
+    let alpha: Float32Array = new Float32Array(width * height);
+
+    for (let i = 0; i < alpha.length; i++) {
+        const offset = i * 4;
+        const [cb, cr] = chroma(pixels[offset], pixels[offset + 1], pixels[offset + 2]);
+        const distance = Math.hypot(cb - keyCb, cr - keyCr);
+        const t = Math.min(1, Math.max(0, (distance - inner) / (outer - inner)));
+        const a = t * t * (3 - 2 * t);
+        alpha[i] = a;
+
+        // A partly transparent pixel is a mix of subject and screen; take the screen back out.
+        if (a > ALPHA_SNAP && a < 1) {
+            for (let c = 0; c < 3; c++) {
+                pixels[offset + c] = (pixels[offset + c] - (1 - a) * key[c]) / a;
+            }
+        }
+
+        if (strong.length > 0 && weak.length > 0) {
+            const spill = Math.min(...strong.map(c => pixels[offset + c])) - Math.max(...weak.map(c => pixels[offset + c]));
+            if (spill > 0) {
+                for (const c of strong) pixels[offset + c] -= spill;
+            }
+        }
+    }
+
+    alpha = blur(alpha, width, height, Math.round(settings.feather));
+    for (let i = 0; i < alpha.length; i++) {
+        const a = alpha[i];
+        pixels[i * 4 + 3] = a < ALPHA_SNAP ? 0 : a > 1 - ALPHA_SNAP ? 255 : Math.round(a * 255);
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
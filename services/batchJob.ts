@@ -0,0 +1,149 @@
+import { AspectRatio } from '../types';
+import { StylePreset, findStylePreset, listStylePresets } from './stylePresets';
+
+// Batch files for the thumbnail generator: one request per row, as CSV (with a header row)
+// or JSON (an array of objects or plain prompt strings). Only `prompt` is required; style,
+// ratio and count fall back to the defaults the batch was started with.
+
+export interface BatchRow {
+    prompt: string;
+    style?: StylePreset;
+    aspectRatio?: AspectRatio;
+    count?: number;
+}
+
+export const MAX_BATCH_COUNT = 4;
+
+const ratioValues = Object.values(AspectRatio) as string[];
+
+// Splits CSV text into records, honouring quoted fields with embedded commas, newlines
+// and doubled quotes.
+const parseCsvRecords = (text: string): string[][] => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    return records.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+const toBatchRow = (raw: Record<string, unknown>, line: number): BatchRow => {
+    const value = (key: string) => {
+        const found = Object.keys(raw).find(candidate => candidate.trim().toLowerCase() === key);
+        const entry = found === undefined ? undefined : raw[found];
+        return entry === undefined || entry === null ? '' : String(entry).trim();
+    };
+
+    const prompt = value('prompt');
+    if (!prompt) {
+        throw new Error(`Row ${line} has no prompt.`);
+    }
+    const row: BatchRow = { prompt };
+
+    const style = value('style');
+    if (style) {
+        // Any preset by name or id, including the user's own.
+        row.style = findStylePreset(style);
+        if (!row.style) {
+            throw new Error(`Row ${line} has an unknown style "${style}". Use one of your style presets: ${listStylePresets().map(preset => preset.name).join(', ')}.`);
+        }
+    }
+
+    const ratio = value('ratio') || value('aspectratio');
+    if (ratio) {
+        if (!ratioValues.includes(ratio)) {
+            throw new Error(`Row ${line} has an unsupported ratio "${ratio}". Use ${ratioValues.join(', ')}.`);
+        }
+        row.aspectRatio = ratio as AspectRatio;
+    }
+
+    const count = value('count');
+    if (count) {
+        const parsed = Number(count);
+        if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_BATCH_COUNT) {
+            throw new Error(`Row ${line} asks for ${count} images; the count must be a whole number from 1 to ${MAX_BATCH_COUNT}.`);
+        }
+        row.count = parsed;
+    }
+    return row;
+};
+
+const parseCsv = (text: string): BatchRow[] => {
+    const [header, ...records] = parseCsvRecords(text);
+    if (!header || !header.some(column => column.trim().toLowerCase() === 'prompt')) {
+        throw new Error('The CSV needs a header row with at least a "prompt" column.');
+    }
+    // Line numbers count the header, so they match what a spreadsheet shows.
+    return records.map((fields, index) =>
+        toBatchRow(Object.fromEntries(header.map((column, i) => [column, fields[i] ?? ''])), index + 2)
+    );
+};
+
+const parseJson = (text: string): BatchRow[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!Array.isArray(data)) {
+        throw new Error('The JSON must be an array of prompts.');
+    }
+    return data.map((item, index) => {
+        if (typeof item === 'string') {
+            return toBatchRow({ prompt: item }, index + 1);
+        }
+        if (item && typeof item === 'object') {
+            return toBatchRow(item as Record<string, unknown>, index + 1);
+        }
+        throw new Error(`Row ${index + 1} must be a prompt string or an object with a "prompt" field.`);
+    });
+};
+
+// Throws an Error with a message fit to show the user when the file can't be used.
+export const parseBatchFile = (fileName: string, text: string): BatchRow[] => {
+    const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*\[/.test(text);
+    const rows = isJson ? parseJson(text) : parseCsv(text);
+    if (rows.length === 0) {
+        throw new Error('The file does not contain any prompts.');
+    }
+    return rows;
+};
+
+// A short, file-name-safe version of a prompt.
+export const slugify = (text: string, maxLength = 40): string =>
+    text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, maxLength)
+        .replace(/-+$/, '') || 'image';
@@ -0,0 +1,39 @@
+// Byte-level helpers shared by the file writers (ZIP export, image metadata).
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+// CRC-32 as used by both ZIP and PNG.
+export const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const textToBytes = (text: string): Uint8Array<ArrayBuffer> => new TextEncoder().encode(text);
+
+export const bytesToText = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(dataUrl.split(',')[1]), c => c.charCodeAt(0));
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
@@ -0,0 +1,19 @@
+// Small canvas helpers shared by everything that draws or re-encodes images in the browser.
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not decode the image."));
+    img.src = src;
+});
+
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Canvas is not supported in this browser.");
+    }
+    return { canvas, ctx };
+};
@@ -0,0 +1,181 @@
+import { ApiError } from "@google/genai";
+
+// Typed errors for every generation call. Providers throw these (or plain errors, which
+// `toGenerationError` normalizes), so views can offer a recovery that fits the failure
+// instead of showing one generic message.
+
+export type GenerationErrorKind =
+    | 'missing-key'
+    | 'invalid-key'
+    | 'quota'
+    | 'safety'
+    | 'unavailable'
+    | 'network'
+    | 'timeout'
+    | 'empty'
+    | 'cancelled'
+    | 'unknown';
+
+export interface GenerationErrorDetails {
+    status?: number;
+    finishReason?: string;
+    blockReason?: string;
+    // How long the server asked us to wait before retrying (Retry-After / RetryInfo).
+    retryAfterMs?: number;
+    cause?: unknown;
+}
+
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind = 'unknown';
+    readonly status?: number;
+    readonly finishReason?: string;
+    readonly blockReason?: string;
+    readonly retryAfterMs?: number;
+    readonly cause?: unknown;
+
+    constructor(message: string, details: GenerationErrorDetails = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.status = details.status;
+        this.finishReason = details.finishReason;
+        this.blockReason = details.blockReason;
+        this.retryAfterMs = details.retryAfterMs;
+        this.cause = details.cause;
+    }
+}
+
+export class MissingApiKeyError extends GenerationError {
+    readonly kind = 'missing-key';
+}
+
+export class InvalidApiKeyError extends GenerationError {
+    readonly kind = 'invalid-key';
+}
+
+export class QuotaExceededError extends GenerationError {
+    readonly kind = 'quota';
+}
+
+export class SafetyBlockedError extends GenerationError {
+    readonly kind = 'safety';
+}
+
+export class ServiceUnavailableError extends GenerationError {
+    readonly kind = 'unavailable';
+}
+
+export class NetworkError extends GenerationError {
+    readonly kind = 'network';
+}
+
+export class TimeoutError extends GenerationError {
+    readonly kind = 'timeout';
+}
+
+export class EmptyResponseError extends GenerationError {
+    readonly kind = 'empty';
+}
+
+export class CancelledError extends GenerationError {
+    readonly kind = 'cancelled';
+}
+
+// Finish and block reasons that mean the model refused the request on policy grounds.
+const SAFETY_REASONS = new Set([
+    'SAFETY',
+    'BLOCKLIST',
+    'PROHIBITED_CONTENT',
+    'SPII',
+    'RECITATION',
+    'IMAGE_SAFETY',
+    'IMAGE_PROHIBITED_CONTENT',
+    'IMAGE_RECITATION',
+]);
+
+const messageOf = (error: unknown): string =>
+    error instanceof Error ? error.message : String(error);
+
+// The Gemini API puts its retry hint in the error body as a google.rpc.RetryInfo
+// (`"retryDelay": "17s"`), which the SDK copies into the error message.
+const parseRetryDelay = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// `Retry-After` is either a number of seconds or an HTTP date.
+const parseRetryAfterHeader = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const fromStatus = (status: number, message: string, details: GenerationErrorDetails): GenerationError => {
+    // Veo reports an unusable key as a missing entity.
+    if (status === 401 || status === 403 || /API key not valid|Requested entity was not found/i.test(message)) {
+        return new InvalidApiKeyError("The API key was rejected. Select a valid key with access to this model.", details);
+    }
+    if (status === 429) {
+        return new QuotaExceededError("The API quota for this key has been used up for now.", details);
+    }
+    if (status === 408 || status === 504) {
+        return new TimeoutError("The request took too long to complete.", details);
+    }
+    if (status >= 500) {
+        return new ServiceUnavailableError("The AI service is temporarily unavailable.", details);
+    }
+    return new GenerationError(message, details);
+};
+
+// Builds a typed error from a failed `fetch` response.
+export const httpError = (response: Response, message: string): GenerationError =>
+    fromStatus(response.status, message, {
+        status: response.status,
+        retryAfterMs: parseRetryAfterHeader(response.headers.get('Retry-After')),
+    });
+
+export const toGenerationError = (error: unknown): GenerationError => {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+    const message = messageOf(error);
+
+    // `AbortSignal` cancellations surface as a DOMException named "AbortError".
+    if (error instanceof Error && error.name === 'AbortError') {
+        return new CancelledError("The request was cancelled.", { cause: error });
+    }
+
+    if (error instanceof ApiError) {
+        return fromStatus(error.status, message, { status: error.status, retryAfterMs: parseRetryDelay(message), cause: error });
+    }
+
+    // `fetch` rejects with a TypeError when the request never reaches the server.
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new NetworkError("Could not reach the AI service. Check your internet connection.", { cause: error });
+    }
+    return new GenerationError(message || "An unknown error occurred.", { cause: error });
+};
+
+// Cancellations are user-initiated, so views drop them silently instead of showing an error.
+export const isCancellation = (error: unknown): boolean =>
+    toGenerationError(error) instanceof CancelledError;
+
+interface ResponseLike {
+    promptFeedback?: { blockReason?: string; blockReasonMessage?: string };
+    candidates?: { finishReason?: string }[];
+}
+
+// Explains why a response carried no usable output: a blocked prompt, a refused
+// candidate, or simply nothing returned.
+export const emptyResponseError = (response: ResponseLike | undefined, what: string): GenerationError => {
+    const blockReason = response?.promptFeedback?.blockReason;
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (blockReason) {
+        return new SafetyBlockedError(`The prompt was blocked (${blockReason}).`, { blockReason, finishReason });
+    }
+    if (finishReason && SAFETY_REASONS.has(finishReason)) {
+        return new SafetyBlockedError(`The model declined to return ${what} (${finishReason}).`, { finishReason });
+    }
+    return new EmptyResponseError(`The model did not return ${what}.`, { finishReason });
+};
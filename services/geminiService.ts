@@ -1,274 +1,179 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+// Single entry point for every AI call the app makes. Each function forwards to the
+// currently active provider (see `services/providers`), so views stay the same whether
+// they are talking to Gemini or to the local offline stand-in.
+// Every call is queued through the shared request scheduler, and every rejection is a
+// `GenerationError` (see `services/errors.ts`). Generated images are cropped or padded to
+// the exact aspect ratio that was asked for (see `services/imageFit.ts`).
+import { getActiveProvider, UploadedImagePayload, ReferenceImagePayload, ImageAspectRatio, VideoResolution, VideoAspectRatio, PromptTarget, ThumbnailScore, RequestOptions } from './providers';
+import { GenerationError, toGenerationError } from './errors';
+import { scheduleRequest, RetryWait } from './requestScheduler';
+import { fitImageToAspectRatio, ImageFitOptions } from './imageFit';
+import { toBinaryMask, compositeMaskedEdit, createOutpaintCanvas } from './imageMask';
+import { createSmallPreview } from './thumbnailScore';
+import { ThumbnailPlatform } from './thumbnailPlatforms';
+
+export interface GenerationOptions extends RequestOptions {
+    // Called whenever a request is waiting to retry after a quota or availability error.
+    onRetryWait?: (wait: RetryWait) => void;
+}
 
-// This file was the primary suspect for the "blank screen" issue on deployment.
-// Accessing `process.env.API_KEY` at the top level of the module can cause a `ReferenceError: process is not defined`
-// in a browser environment if the build tool (like Vite or CRA) is not configured to handle it or if the environment variable isn't set during build.
-// By moving all logic that uses `process.env.API_KEY` inside the functions that are called by user actions, we ensure the app can load successfully.
-// If the API key is missing, the user will see an error message when they try to perform an action, instead of the app crashing on start.
+export interface ImageGenerationOptions extends GenerationOptions {
+    // How to reach the exact ratio when the model ignores it, and an optional exact output size.
+    fit?: ImageFitOptions;
+}
 
-interface UploadedImagePayload {
-    data: string;
-    mimeType: string;
+export interface ImageEditOptions extends GenerationOptions {
+    // Alpha-mask data URL (opaque = editable) at the base image's size. When set, the edit is
+    // confined to the mask and composited so pixels outside it are untouched.
+    mask?: string;
 }
 
+const schedule = <T>(task: (options: RequestOptions) => Promise<T>, options: GenerationOptions = {}): Promise<T> =>
+    scheduleRequest(() => task({ signal: options.signal }), options);
+
+export const generateImage = (
+    prompt: string,
+    aspectRatio: ImageAspectRatio,
+    uploadedImage?: UploadedImagePayload,
+    references: ReferenceImagePayload[] = [],
+    variant?: number,
+    options?: ImageGenerationOptions
+): Promise<string> =>
+    // Post-processing runs after the request has left the scheduler, so it never holds a slot.
+    schedule(requestOptions => getActiveProvider().generateImage(prompt, aspectRatio, uploadedImage, references, variant, requestOptions), options)
+        .then(image => fitImageToAspectRatio(image, aspectRatio, options?.fit));
+
+export type ImageSlotResult =
+    | { index: number; image: string }
+    | { index: number; error: GenerationError };
+
+// Requests `numberOfImages` images in parallel and reports each slot through `onSlot`
+// as soon as it settles. Never rejects: a failed slot is reported with its error so the
+// images that did succeed are kept.
+export const generateImageSlots = (
+    prompt: string,
+    numberOfImages: number,
+    aspectRatio: ImageAspectRatio,
+    uploadedImage: UploadedImagePayload | undefined,
+    references: ReferenceImagePayload[],
+    onSlot: (result: ImageSlotResult) => void,
+    options?: ImageGenerationOptions
+): Promise<ImageSlotResult[]> =>
+    Promise.all(
+        Array(numberOfImages).fill(0).map((_, index) =>
+            generateImage(prompt, aspectRatio, uploadedImage, references, index, options)
+                .then((image): ImageSlotResult => ({ index, image }))
+                .catch((error): ImageSlotResult => ({ index, error: toGenerationError(error) }))
+                .then(result => {
+                    onSlot(result);
+                    return result;
+                })
+        )
+    );
+
+// Resolves with every image that succeeded; rejects only if all of them failed.
 export const generateImages = async (
     prompt: string,
     numberOfImages: number,
-    aspectRatio: '16:9' | '1:1' | '9:16',
+    aspectRatio: ImageAspectRatio,
     uploadedImage?: UploadedImagePayload,
-    referenceImage?: UploadedImagePayload
+    references: ReferenceImagePayload[] = [],
+    options?: ImageGenerationOptions
 ): Promise<string[]> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API Key not found. Please ensure it's configured in your deployment environment.");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    try {
-        if (uploadedImage) {
-            // Image-to-Image / Edit using gemini-2.5-flash-image
-            const parts: any[] = [
-                { inlineData: { data: uploadedImage.data, mimeType: uploadedImage.mimeType } },
-            ];
-
-            if (referenceImage) {
-                parts.push({ inlineData: { data: referenceImage.data, mimeType: referenceImage.mimeType } });
-            }
-            
-            // Add a more descriptive instruction if a reference image is present
-            const instruction = referenceImage 
-                ? `Edit the first image based on the text prompt. The second image is a reference; use it as described in the prompt. Text prompt: "${prompt}"`
-                : prompt;
-            parts.push({ text: instruction });
-
-
-            // This model generates one image per call, so we make parallel requests.
-            const generationPromises = Array(numberOfImages).fill(0).map(() =>
-                ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image',
-                    contents: { parts },
-                    config: {
-                        responseModalities: [Modality.IMAGE],
-                    }
-                })
-            );
-
-            const responses = await Promise.all(generationPromises);
-
-            const images = responses.flatMap(response => 
-                response.candidates?.[0]?.content?.parts
-                    .filter(part => part.inlineData)
-                    .map(part => {
-                        const { mimeType, data } = part.inlineData!;
-                        return `data:${mimeType};base64,${data}`;
-                    }) || []
-            );
-            
-            if (images.length === 0) {
-                throw new Error("The model did not return any images.");
-            }
-            return images;
-
-        } else {
-            // Text-to-Image using gemini-2.5-flash-image to ensure compatibility with user's API key.
-            // This model is generally available and avoids permission issues seen with more specialized models like Imagen.
-            const generationPromises = Array(numberOfImages).fill(0).map(() =>
-                ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image',
-                    contents: {
-                        parts: [
-                            // Instruct the model about the desired aspect ratio within the prompt itself.
-                            { text: `${prompt}. The final generated image MUST have a strict aspect ratio of ${aspectRatio}.` }
-                        ]
-                    },
-                    config: {
-                        responseModalities: [Modality.IMAGE],
-                    }
-                })
-            );
-
-            const responses = await Promise.all(generationPromises);
-
-            const images = responses.flatMap(response =>
-                response.candidates?.[0]?.content?.parts
-                    .filter(part => part.inlineData)
-                    .map(part => {
-                        const { mimeType, data } = part.inlineData!;
-                        return `data:${mimeType};base64,${data}`;
-                    }) || []
-            );
-
-            if (images.length === 0) {
-                throw new Error("The model did not return any images. This could be due to a safety policy or a problem with the prompt.");
-            }
-            return images;
-        }
-    } catch (error) {
-        console.error("Error generating images:", error);
-        throw new Error("Failed to generate images. Please check your API key and prompt. The model may have refused to generate content for safety reasons.");
+    const results = await generateImageSlots(prompt, numberOfImages, aspectRatio, uploadedImage, references, () => {}, options);
+    const images = results.flatMap(result => 'image' in result ? [result.image] : []);
+    if (images.length === 0) {
+        const failure = results.find((result): result is { index: number; error: GenerationError } => 'error' in result);
+        throw failure?.error ?? new GenerationError("The model did not return any images.");
     }
+    return images;
 };
 
 export const editImageWithChat = async (
     baseImage: UploadedImagePayload,
     prompt: string,
-    referenceImage?: UploadedImagePayload
+    references: ReferenceImagePayload[] = [],
+    options: ImageEditOptions = {}
 ): Promise<string> => {
-     if (!process.env.API_KEY) {
-        throw new Error("API Key not found. Please ensure it's configured in your deployment environment.");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    try {
-        const parts: any[] = [
-            { inlineData: { data: baseImage.data, mimeType: baseImage.mimeType } },
-        ];
-
-        if (referenceImage) {
-            parts.push({ inlineData: { data: referenceImage.data, mimeType: referenceImage.mimeType } });
-        }
-        
-        const instruction = `Your task is to edit the main image based on the user's request. Follow the user's text prompt precisely. If another image is provided, it's a reference or an element to incorporate as described in the prompt. User's prompt: "${prompt}"`;
-        parts.push({ text: instruction });
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            }
-        });
-        
-        const imagePart = response.candidates?.[0]?.content?.parts.find(part => part.inlineData);
-        if (imagePart?.inlineData) {
-            const { mimeType, data } = imagePart.inlineData;
-            return `data:${mimeType};base64,${data}`;
-        } else {
-            throw new Error("The model did not return an image. This could be due to a safety policy violation.");
-        }
-
-    } catch (error) {
-        console.error("Error editing image with chat:", error);
-        throw new Error("Failed to edit image. The model may have refused to generate content for safety reasons.");
-    }
+    const { mask } = options;
+    const binaryMask = mask ? await toBinaryMask(mask) : undefined;
+    const edited = await schedule(requestOptions => getActiveProvider().editImageWithChat(baseImage, prompt, references, binaryMask, requestOptions), options);
+    return mask ? compositeMaskedEdit(`data:${baseImage.mimeType};base64,${baseImage.data}`, edited, mask) : edited;
 };
 
-export const generatePromptFromImage = async (
-    imageData: string,
-    mimeType: string
+// Extends the picture to `aspectRatio` instead of re-imagining it: the original goes on a
+// larger canvas, the model fills only the new margins, and the original pixels are composited
+// back unchanged. `description` optionally says what the extended scene should contain.
+export const expandImage = async (
+    image: UploadedImagePayload,
+    aspectRatio: ImageAspectRatio,
+    description?: string,
+    options?: GenerationOptions
 ): Promise<string> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API Key not found. Please ensure it's configured in your deployment environment.");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    { text: "Analyze this image. If it contains significant, legible text (like a sign, a book cover, or a meme), extract that text as the primary content for a prompt. If there is no text or the text is minor/illegible, instead generate a concise, descriptive prompt about the visual content, focusing on the main subject, setting, and style." },
-                    { inlineData: { data: imageData, mimeType: mimeType } }
-                ]
-            },
-        });
-        return response.text.trim();
-    } catch (error) {
-        console.error("Error generating prompt from image:", error);
-        throw new Error("Failed to analyze the image. Please try again.");
+    const outpaint = await createOutpaintCanvas(`data:${image.mimeType};base64,${image.data}`, aspectRatio);
+    if (!outpaint) {
+        throw new GenerationError(`The image is already ${aspectRatio}, so there is nothing to expand.`);
     }
+    const prompt = `The picture has been placed on a larger canvas and the grey margins around it are empty. Fill the margins by continuing the scene outwards so the result reads as one seamless photograph, matching perspective, lighting, colour and texture. Do not change, move, crop or re-frame the existing picture.${description?.trim() ? ` The scene: ${description.trim()}` : ''}`;
+    return editImageWithChat(
+        { data: outpaint.image.split(',')[1], mimeType: 'image/png' },
+        prompt,
+        [],
+        { ...options, mask: outpaint.mask }
+    );
 };
 
-// FIX: Added generateSpeech function to be used for text-to-speech generation.
-export const generateSpeech = async (
-    text: string,
-    voiceName: string
+// First half of background removal: the same picture with everything but the main subject
+// replaced by a flat chroma-key screen, for `cutOutSubject` in `backgroundRemoval.ts` to key
+// out. Magenta stands in for green when the subject itself is green.
+export const isolateSubject = (
+    image: UploadedImagePayload,
+    options?: GenerationOptions
 ): Promise<string> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API Key not found. Please ensure it's configured in your deployment environment.");
-    }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName },
-                    },
-                },
-            },
-        });
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("Audio generation failed, no data returned.");
-        }
-        return base64Audio;
-    } catch (error) {
-        console.error("Error generating speech:", error);
-        throw new Error("Failed to generate speech. Please check your API key and prompt.");
-    }
+    const prompt = 'Keep the main subject exactly as it is, with the same position, size, pose, colours and detail, and replace everything else with a perfectly flat, solid pure green (#00FF00) background. The background must have no shadows, gradients, reflections, texture or objects, and there must be no outline or glow around the subject. If the subject itself is green, use solid pure magenta (#FF00FF) instead.';
+    return editImageWithChat(image, prompt, [], options);
 };
 
-// FIX: Added generateVideo function for text-to-video generation using Veo.
-export const generateVideo = async (
-    prompt: string,
-    resolution: '720p' | '1080p',
-    aspectRatio: '16:9' | '9:16',
-    updateLoadingMessage: (message: string) => void
-): Promise<string> => {
-    if (!process.env.API_KEY) {
-        throw new Error("API Key not found. Please ensure it's configured in your deployment environment.");
-    }
-    // A new GoogleGenAI instance must be created for each Veo call
-    // to ensure the latest API key from the selection dialog is used.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    try {
-        updateLoadingMessage("Starting video generation...");
-        let operation = await ai.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview',
-            prompt,
-            config: {
-                numberOfVideos: 1,
-                resolution,
-                aspectRatio,
-            }
-        });
-
-        updateLoadingMessage("Processing your request... This may take a few minutes.");
-        let pollCount = 0;
-        const maxPolls = 30; // 5 minutes max wait time
-        while (!operation.done && pollCount < maxPolls) {
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            operation = await ai.operations.getVideosOperation({ operation });
-            pollCount++;
-            updateLoadingMessage(`Checking status... (${pollCount * 10}s elapsed)`);
-        }
-
-        if (!operation.done) {
-            throw new Error("Video generation timed out. Please try again with a simpler prompt.");
-        }
+export const generatePromptFromImage = (
+    imageData: string,
+    mimeType: string,
+    options?: GenerationOptions
+): Promise<string> => schedule(requestOptions => getActiveProvider().generatePromptFromImage(imageData, mimeType, requestOptions), options);
 
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("The model did not return a video. Please try again.");
-        }
+// Expands a short prompt into `count` detailed alternatives for the given kind of generator,
+// or for the specific `format` ("Instagram story") when there is one.
+export const enhancePrompt = (
+    prompt: string,
+    target: PromptTarget,
+    style?: string,
+    format?: string,
+    count = 3,
+    options?: GenerationOptions
+): Promise<string[]> => schedule(requestOptions => getActiveProvider().enhancePrompt(prompt, target, style, format, count, requestOptions), options);
+
+// Critiques a thumbnail made for `topic` on `platform`, judging it at full size and at the
+// size the platform shows it small.
+export const scoreThumbnail = async (
+    image: UploadedImagePayload,
+    topic: string,
+    platform: ThumbnailPlatform,
+    options?: GenerationOptions
+): Promise<ThumbnailScore> => {
+    const smallPreview = await createSmallPreview(image, platform.smallView.width);
+    const target = { description: platform.description, smallView: platform.smallView.context };
+    return schedule(requestOptions => getActiveProvider().scoreThumbnail(image, smallPreview, topic, target, requestOptions), options);
+};
 
-        updateLoadingMessage("Fetching your video...");
-        // Append API key to the URI for access
-        const videoUrl = `${downloadLink}&key=${process.env.API_KEY}`;
-        
-        // Fetch the video to convert it to a blob URL, which is safer for the <video> tag
-        const videoResponse = await fetch(videoUrl);
-        if (!videoResponse.ok) {
-            throw new Error(`Failed to fetch video data (status: ${videoResponse.status}).`);
-        }
-        const videoBlob = await videoResponse.blob();
-        return URL.createObjectURL(videoBlob);
+export const generateSpeech = (
+    text: string,
+    voiceName: string,
+    options?: GenerationOptions
+): Promise<string> => schedule(requestOptions => getActiveProvider().generateSpeech(text, voiceName, requestOptions), options);
 
-    } catch (error) {
-        console.error("Error generating video:", error);
-        // Rethrow to be caught by the component
-        throw error;
-    }
-};
\ No newline at end of file
+export const generateVideo = (
+    prompt: string,
+    resolution: VideoResolution,
+    aspectRatio: VideoAspectRatio,
+    updateLoadingMessage: (message: string) => void,
+    options?: GenerationOptions
+): Promise<string> => schedule(requestOptions => getActiveProvider().generateVideo(prompt, resolution, aspectRatio, updateLoadingMessage, requestOptions), options);
@@ -0,0 +1,189 @@
+import { ImageAspectRatio, UploadedImagePayload, ReferenceImagePayload, ReferenceRole, ProviderId, getActiveProvider } from './providers';
+import { ImageFitOptions } from './imageFit';
+
+// Every generated image is saved here so nothing is lost when a generator is reset or
+// closed, or the page reloads. Entries keep everything needed to run the same request
+// again. Source images are stored once per content hash, however many results use them.
+
+const DB_NAME = 'spark-history';
+const DB_VERSION = 2;
+const ENTRIES = 'entries';
+const SOURCES = 'sources';
+
+export type HistoryKind = 'image' | 'thumbnail';
+
+// How the image was made, which decides how Re-run repeats it: a fresh generation from the
+// prompt, an outpaint of the source image, or a chain of chat edits.
+export type HistoryOperation = 'generate' | 'expand' | 'chat-edit';
+
+export interface HistoryReference {
+    role: ReferenceRole;
+    hash: string;
+}
+
+export interface HistoryEntry {
+    id: string;
+    kind: HistoryKind;
+    // Entries saved before operations were recorded are all generations.
+    operation?: HistoryOperation;
+    image: string; // data URL
+    // What the user typed; `fullPrompt` is what was actually sent to the model.
+    prompt: string;
+    fullPrompt: string;
+    style: string;
+    aspectRatio: ImageAspectRatio;
+    fit?: ImageFitOptions;
+    sourceImageHash?: string;
+    references?: HistoryReference[];
+    // The same hashes as `references`, flat, so IndexedDB can index them.
+    referenceImageHashes?: string[];
+    // Entries saved before references had roles hold at most one, which was always a style sample.
+    referenceImageHash?: string;
+    providerId: ProviderId;
+    model: string;
+    createdAt: number;
+    favourite: boolean;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt' | 'favourite' | 'sourceImageHash' | 'references' | 'referenceImageHashes' | 'referenceImageHash' | 'providerId' | 'model'> & {
+    sourceImage?: UploadedImagePayload;
+    references?: ReferenceImagePayload[];
+};
+
+interface StoredSource extends UploadedImagePayload {
+    hash: string;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            if (event.oldVersion < 1) {
+                const entries = db.createObjectStore(ENTRIES, { keyPath: 'id' });
+                entries.createIndex('createdAt', 'createdAt');
+                entries.createIndex('sourceImageHash', 'sourceImageHash');
+                entries.createIndex('referenceImageHash', 'referenceImageHash');
+                db.createObjectStore(SOURCES, { keyPath: 'hash' });
+            }
+            if (event.oldVersion < 2) {
+                request.transaction!.objectStore(ENTRIES).createIndex('referenceImageHashes', 'referenceImageHashes', { multiEntry: true });
+            }
+        };
+        dbPromise = promisify(request).catch(error => {
+            // Let the next call try again (e.g. after the user frees up storage).
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+// SHA-256 of the raw image bytes, hex encoded.
+export const hashImage = async ({ data }: UploadedImagePayload): Promise<string> => {
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const addHistoryEntry = async ({ sourceImage, references = [], ...fields }: NewHistoryEntry): Promise<HistoryEntry> => {
+    const [sourceImageHash, referenceHashes] = await Promise.all([
+        sourceImage && hashImage(sourceImage),
+        Promise.all(references.map(hashImage)),
+    ]);
+    const provider = getActiveProvider();
+    const entry: HistoryEntry = {
+        ...fields,
+        providerId: provider.id,
+        model: provider.imageModel,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        favourite: false,
+        sourceImageHash,
+        references: references.length > 0 ? references.map(({ role }, i) => ({ role, hash: referenceHashes[i] })) : undefined,
+        referenceImageHashes: references.length > 0 ? referenceHashes : undefined,
+    };
+
+    const db = await openDb();
+    const transaction = db.transaction([ENTRIES, SOURCES], 'readwrite');
+    transaction.objectStore(ENTRIES).put(entry);
+    const sources = transaction.objectStore(SOURCES);
+    if (sourceImage && sourceImageHash) {
+        sources.put({ hash: sourceImageHash, data: sourceImage.data, mimeType: sourceImage.mimeType } satisfies StoredSource);
+    }
+    references.forEach((reference, i) => {
+        sources.put({ hash: referenceHashes[i], data: reference.data, mimeType: reference.mimeType } satisfies StoredSource);
+    });
+    await transactionDone(transaction);
+    return entry;
+};
+
+// For generator views: history is a safety net, so a failed save is logged rather than
+// interrupting the user.
+export const saveToHistory = (entry: NewHistoryEntry) => {
+    addHistoryEntry(entry).catch(error => console.error("Could not save the image to history:", error));
+};
+
+// Newest first.
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+    const db = await openDb();
+    const entries = await promisify<HistoryEntry[]>(db.transaction(ENTRIES).objectStore(ENTRIES).index('createdAt').getAll());
+    return entries.reverse();
+};
+
+export const setHistoryFavourite = async (id: string, favourite: boolean): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(ENTRIES, 'readwrite');
+    const store = transaction.objectStore(ENTRIES);
+    const entry = await promisify<HistoryEntry | undefined>(store.get(id));
+    if (entry) {
+        store.put({ ...entry, favourite });
+    }
+    await transactionDone(transaction);
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction([ENTRIES, SOURCES], 'readwrite');
+    const entries = transaction.objectStore(ENTRIES);
+    const entry = await promisify<HistoryEntry | undefined>(entries.get(id));
+    if (entry) {
+        entries.delete(id);
+        // Drop source images no other entry still points at.
+        for (const hash of new Set([entry.sourceImageHash, ...historyReferences(entry).map(reference => reference.hash)])) {
+            if (!hash) continue;
+            const counts = await Promise.all(
+                ['sourceImageHash', 'referenceImageHashes', 'referenceImageHash'].map(index => promisify(entries.index(index).count(hash)))
+            );
+            if (counts.every(count => count === 0)) {
+                transaction.objectStore(SOURCES).delete(hash);
+            }
+        }
+    }
+    await transactionDone(transaction);
+};
+
+export const historyOperation = (entry: HistoryEntry): HistoryOperation => entry.operation ?? 'generate';
+
+// The entry's reference images, including the single one older entries may have.
+export const historyReferences = (entry: HistoryEntry): HistoryReference[] =>
+    entry.references ?? (entry.referenceImageHash ? [{ role: 'style', hash: entry.referenceImageHash }] : []);
+
+export const getSourceImage = async (hash: string): Promise<UploadedImagePayload | undefined> => {
+    const db = await openDb();
+    const source = await promisify<StoredSource | undefined>(db.transaction(SOURCES).objectStore(SOURCES).get(hash));
+    return source && { data: source.data, mimeType: source.mimeType };
+};
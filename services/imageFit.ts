@@ -0,0 +1,150 @@
+import { ImageAspectRatio } from './providers';
+import { loadImage, createCanvas } from './canvas';
+
+// Image models treat the requested aspect ratio as a suggestion, so every generated image
+// goes through this stage: it measures the real dimensions and crops or pads to the exact
+// ratio (and optionally to an exact pixel size) before the image reaches the user.
+
+export type FitMode = 'crop' | 'pad-blur' | 'pad-solid';
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+export interface ImageFitOptions {
+    mode?: FitMode;
+    // Resize the result to exactly this many pixels. Its ratio takes precedence over the
+    // requested one, so a shape no model produces (like a 3:1 banner) is cropped from the
+    // nearest ratio that was generated.
+    targetSize?: ImageSize;
+    // Background for 'pad-solid'.
+    fillColor?: string;
+}
+
+export const fitModeLabels: Record<FitMode, string> = {
+    crop: 'Crop',
+    'pad-blur': 'Blur pad',
+    'pad-solid': 'Solid pad',
+};
+
+// Ratios closer than this (relative) are treated as already correct, so a 1023×1024 image
+// isn't re-encoded just to shave off one pixel.
+const RATIO_TOLERANCE = 0.005;
+const SALIENCY_SAMPLE_SIZE = 64;
+const BLUR_PAD_RADIUS_FRACTION = 0.04;
+
+export const ratioValue = (aspectRatio: ImageAspectRatio): number => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width / height;
+};
+
+// Where the interesting part of the image is, as fractions of width and height: the
+// centroid of edge energy on a small copy. Flat areas (sky, studio backdrops) carry no
+// edges, so the crop window drifts towards the subject instead of the geometric centre.
+const findFocalPoint = (img: HTMLImageElement): { x: number; y: number } => {
+    const scale = SALIENCY_SAMPLE_SIZE / Math.max(img.width, img.height);
+    const width = Math.max(1, Math.round(img.width * scale));
+    const height = Math.max(1, Math.round(img.height * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const luma = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let total = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (let y = 0; y < height - 1; y++) {
+        for (let x = 0; x < width - 1; x++) {
+            const energy = Math.abs(luma(x + 1, y) - luma(x, y)) + Math.abs(luma(x, y + 1) - luma(x, y));
+            total += energy;
+            sumX += energy * (x + 0.5);
+            sumY += energy * (y + 0.5);
+        }
+    }
+    if (total === 0) {
+        return { x: 0.5, y: 0.5 };
+    }
+    return { x: sumX / total / width, y: sumY / total / height };
+};
+
+// The largest window of the target ratio that fits in the source, centred on the focal point.
+const cropWindow = (img: HTMLImageElement, ratio: number) => {
+    const focus = findFocalPoint(img);
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    if (img.width / img.height > ratio) {
+        const width = img.height * ratio;
+        return { sx: clamp(focus.x * img.width - width / 2, img.width - width), sy: 0, sw: width, sh: img.height };
+    }
+    const height = img.width / ratio;
+    return { sx: 0, sy: clamp(focus.y * img.height - height / 2, img.height - height), sw: img.width, sh: height };
+};
+
+// The output size when no explicit target is given: crop keeps the source's short side,
+// padding keeps its long side, so neither ever upscales the picture itself.
+const naturalSize = (img: HTMLImageElement, ratio: number, mode: FitMode): ImageSize => {
+    const isWider = img.width / img.height > ratio;
+    if (mode === 'crop') {
+        return isWider
+            ? { width: Math.round(img.height * ratio), height: img.height }
+            : { width: img.width, height: Math.round(img.width / ratio) };
+    }
+    return isWider
+        ? { width: img.width, height: Math.round(img.width / ratio) }
+        : { width: Math.round(img.height * ratio), height: img.height };
+};
+
+// Returns `dataUrl` unchanged when it already has the right ratio (and size, if one was
+// asked for); otherwise a PNG data URL with exactly the requested shape.
+export const fitImageToAspectRatio = async (
+    dataUrl: string,
+    aspectRatio: ImageAspectRatio,
+    { mode = 'crop', targetSize, fillColor = '#000000' }: ImageFitOptions = {}
+): Promise<string> => {
+    const img = await loadImage(dataUrl);
+    const ratio = targetSize ? targetSize.width / targetSize.height : ratioValue(aspectRatio);
+    const ratioMatches = Math.abs(img.width / img.height - ratio) / ratio < RATIO_TOLERANCE;
+    const sizeMatches = !targetSize || (img.width === targetSize.width && img.height === targetSize.height);
+    if (ratioMatches && sizeMatches) {
+        return dataUrl;
+    }
+
+    const { width, height } = targetSize ?? (ratioMatches ? { width: img.width, height: img.height } : naturalSize(img, ratio, mode));
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+
+    if (ratioMatches || mode === 'crop') {
+        const { sx, sy, sw, sh } = ratioMatches ? { sx: 0, sy: 0, sw: img.width, sh: img.height } : cropWindow(img, ratio);
+        ctx.drawImage(img, sx, sy, sw, sh, 0, 0, width, height);
+        return canvas.toDataURL('image/png');
+    }
+
+    if (mode === 'pad-blur') {
+        // A blurred, cover-fitted copy fills the bars so they blend with the picture.
+        const cover = Math.max(width / img.width, height / img.height);
+        const blur = Math.round(Math.max(width, height) * BLUR_PAD_RADIUS_FRACTION);
+        ctx.filter = `blur(${blur}px) brightness(0.8)`;
+        // Overdraw by the blur radius so the soft edges fall outside the canvas.
+        ctx.drawImage(
+            img,
+            (width - img.width * cover) / 2 - blur,
+            (height - img.height * cover) / 2 - blur,
+            img.width * cover + blur * 2,
+            img.height * cover + blur * 2
+        );
+        ctx.filter = 'none';
+    } else {
+        ctx.fillStyle = fillColor;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    const contain = Math.min(width / img.width, height / img.height);
+    const drawWidth = img.width * contain;
+    const drawHeight = img.height * contain;
+    ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    return canvas.toDataURL('image/png');
+};
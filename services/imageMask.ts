@@ -0,0 +1,72 @@
+import { UploadedImagePayload, ImageAspectRatio } from './providers';
+import { loadImage, createCanvas } from './canvas';
+import { ratioValue } from './imageFit';
+
+// Inpainting masks. The editor paints an "alpha mask": a PNG at the base image's size that is
+// opaque where the user wants changes and transparent everywhere else. The model gets a plain
+// black-and-white version of it, and the edited result is composited back through it so every
+// unmasked pixel is exactly the original.
+
+// White marks the region to edit, black the region to keep, as image models expect.
+export const toBinaryMask = async (alphaMaskUrl: string): Promise<UploadedImagePayload> => {
+    const mask = await loadImage(alphaMaskUrl);
+    const { canvas, ctx } = createCanvas(mask.width, mask.height);
+    ctx.drawImage(mask, 0, 0);
+    // Keep the painted shape, recolour it white, then put black behind it.
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+// Takes the edited pixels inside the mask and the original pixels everywhere else. The edit
+// is scaled to the original's size first, since models don't always keep the dimensions.
+export const compositeMaskedEdit = async (baseUrl: string, editedUrl: string, alphaMaskUrl: string): Promise<string> => {
+    const [base, edited, mask] = await Promise.all([loadImage(baseUrl), loadImage(editedUrl), loadImage(alphaMaskUrl)]);
+    const { canvas, ctx } = createCanvas(base.width, base.height);
+    ctx.drawImage(edited, 0, 0, base.width, base.height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask, 0, 0, base.width, base.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.drawImage(base, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Neutral grey for the empty margins: it gives the model no colour to copy from.
+const OUTPAINT_FILL = '#808080';
+
+export interface OutpaintCanvas {
+    // The original centred on a larger canvas of the target ratio, margins filled grey.
+    image: string;
+    // Alpha mask covering just the margins.
+    mask: string;
+}
+
+// Grows the canvas along one axis until it has the target ratio, never cropping or scaling
+// the original. Returns null when the image already has that ratio.
+export const createOutpaintCanvas = async (dataUrl: string, aspectRatio: ImageAspectRatio): Promise<OutpaintCanvas | null> => {
+    const img = await loadImage(dataUrl);
+    const ratio = ratioValue(aspectRatio);
+    const width = Math.max(img.width, Math.round(img.height * ratio));
+    const height = Math.max(img.height, Math.round(img.width / ratio));
+    if (width === img.width && height === img.height) {
+        return null;
+    }
+    const x = Math.round((width - img.width) / 2);
+    const y = Math.round((height - img.height) / 2);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = OUTPAINT_FILL;
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, x, y);
+
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.clearRect(x, y, img.width, img.height);
+
+    return { image: canvas.toDataURL('image/png'), mask: maskCanvas.toDataURL('image/png') };
+};
@@ -0,0 +1,262 @@
+import { ImageAspectRatio, getActiveProvider } from './providers';
+import { ImageFitOptions } from './imageFit';
+import { crc32, textToBytes, bytesToText, dataUrlToBytes, concatBytes } from './binary';
+
+// Generation settings travel inside downloaded files, so an image found on disk later can
+// say how it was made and be loaded back into the generator. PNGs carry them in tEXt/iTXt
+// chunks, JPEGs in an XMP packet and a comment segment. Other formats are saved as they are.
+
+export interface GenerationMetadata {
+    prompt: string;
+    fullPrompt: string;
+    style: string;
+    aspectRatio: ImageAspectRatio;
+    fit?: ImageFitOptions;
+    model: string;
+    createdAt: number;
+}
+
+export type GenerationSettings = Omit<GenerationMetadata, 'model' | 'createdAt'>;
+
+// Stamps settings with the model that is generating right now.
+export const describeGeneration = (settings: GenerationSettings): GenerationMetadata => ({
+    ...settings,
+    model: getActiveProvider().imageModel,
+    createdAt: Date.now(),
+});
+
+// Keyword for the PNG chunk and prefix for the JPEG comment holding the settings as JSON.
+const METADATA_KEY = 'spark:generation';
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// A JPEG segment's length field counts itself, so this is the most a segment can carry.
+const MAX_JPEG_SEGMENT_PAYLOAD = 0xffff - 2;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+const COM = 0xfe;
+
+export const mimeTypeOf = (dataUrl: string): string =>
+    dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
+
+const extensions: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+export const extensionFor = (mimeType: string): string => extensions[mimeType] ?? 'png';
+
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((value, i) => bytes[i] === value);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const latin1Bytes = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) < 256 ? c.charCodeAt(0) : 0x3f);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const typeAndData = concatBytes([latin1Bytes(type), data]);
+    const chunk = new Uint8Array(typeAndData.length + 8);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(typeAndData, 4);
+    view.setUint32(typeAndData.length + 4, crc32(typeAndData));
+    return chunk;
+};
+
+const textChunk = (keyword: string, text: string) =>
+    pngChunk('tEXt', concatBytes([latin1Bytes(keyword), new Uint8Array([0]), latin1Bytes(text)]));
+
+// Uncompressed, with empty language tag and translated keyword.
+const internationalTextChunk = (keyword: string, text: string) =>
+    pngChunk('iTXt', concatBytes([latin1Bytes(keyword), new Uint8Array([0, 0, 0, 0, 0]), textToBytes(text)]));
+
+const forEachPngChunk = (bytes: Uint8Array, visit: (type: string, start: number, end: number, dataStart: number) => void) => {
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= bytes.length) {
+        const length = readUint32(bytes, offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        visit(type, offset, offset + length + 12, offset + 8);
+        offset += length + 12;
+    }
+};
+
+const PNG_TEXT_KEYWORDS = ['Software', 'Description', METADATA_KEY];
+
+const pngKeyword = (bytes: Uint8Array, dataStart: number, end: number) => {
+    const data = bytes.subarray(dataStart, end - 4);
+    return bytesToText(data.subarray(0, data.indexOf(0)));
+};
+
+const embedInPng = (bytes: Uint8Array, metadata: GenerationMetadata): Uint8Array<ArrayBuffer> => {
+    const kept: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+    forEachPngChunk(bytes, (type, start, end, dataStart) => {
+        // Replace the text chunks written below rather than adding a second set.
+        if ((type === 'iTXt' || type === 'tEXt') && PNG_TEXT_KEYWORDS.includes(pngKeyword(bytes, dataStart, end))) return;
+        kept.push(bytes.subarray(start, end));
+        // Text chunks go straight after the header so readers find them without scanning the image data.
+        if (type === 'IHDR') {
+            kept.push(
+                textChunk('Software', 'Spark'),
+                internationalTextChunk('Description', metadata.prompt),
+                internationalTextChunk(METADATA_KEY, JSON.stringify(metadata)),
+            );
+        }
+    });
+    return concatBytes(kept);
+};
+
+const readFromPng = (bytes: Uint8Array): string | null => {
+    let found: string | null = null;
+    forEachPngChunk(bytes, (type, _start, end, dataStart) => {
+        if (found !== null || (type !== 'iTXt' && type !== 'tEXt')) return;
+        if (pngKeyword(bytes, dataStart, end) !== METADATA_KEY) return;
+        const data = bytes.subarray(dataStart, end - 4);
+        const keywordEnd = data.indexOf(0);
+        if (type === 'tEXt') {
+            found = String.fromCharCode(...data.subarray(keywordEnd + 1));
+            return;
+        }
+        // Skip the compression flag and method, then the language tag and translated keyword.
+        let textStart = keywordEnd + 3;
+        textStart = data.indexOf(0, textStart) + 1;
+        textStart = data.indexOf(0, textStart) + 1;
+        if (data[keywordEnd + 1] === 0) {
+            found = bytesToText(data.subarray(textStart));
+        }
+    });
+    return found;
+};
+
+// --- JPEG ---
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array | null => {
+    if (payload.length > MAX_JPEG_SEGMENT_PAYLOAD) return null;
+    const segment = new Uint8Array(payload.length + 4);
+    const view = new DataView(segment.buffer);
+    view.setUint8(0, 0xff);
+    view.setUint8(1, marker);
+    view.setUint16(2, payload.length + 2);
+    segment.set(payload, 4);
+    return segment;
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+    text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
+const xmpPacket = (metadata: GenerationMetadata) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:spark="https://spark.app/ns/1.0/"
+ xmp:CreatorTool="Spark" xmp:CreateDate="${new Date(metadata.createdAt).toISOString()}"
+ spark:generation="${escapeXml(JSON.stringify(metadata))}">
+<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+// Calls `visit` for every segment before the image data (start of scan), with its byte range.
+const forEachJpegSegment = (bytes: Uint8Array, visit: (marker: number, start: number, end: number) => void) => {
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda) return;
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        visit(marker, offset, offset + 2 + length);
+        offset += 2 + length;
+    }
+};
+
+const isOurJpegSegment = (bytes: Uint8Array, marker: number, start: number, end: number) => {
+    const payload = bytesToText(bytes.subarray(start + 4, end));
+    return (marker === COM && payload.startsWith(`${METADATA_KEY} `)) ||
+        (marker === APP1 && payload.startsWith(XMP_NAMESPACE) && payload.includes('spark:generation='));
+};
+
+const embedInJpeg = (bytes: Uint8Array, metadata: GenerationMetadata): Uint8Array<ArrayBuffer> => {
+    const ours = [
+        jpegSegment(APP1, textToBytes(XMP_NAMESPACE + xmpPacket(metadata))),
+        jpegSegment(COM, textToBytes(`${METADATA_KEY} ${JSON.stringify(metadata)}`)),
+    ].filter((segment): segment is Uint8Array => segment !== null);
+
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let inserted = false;
+    let end = 2;
+    forEachJpegSegment(bytes, (marker, start, segmentEnd) => {
+        end = segmentEnd;
+        // JFIF requires its APP0 segment first, so ours follow it.
+        if (!inserted && marker !== APP0) {
+            parts.push(...ours);
+            inserted = true;
+        }
+        if (!isOurJpegSegment(bytes, marker, start, segmentEnd)) {
+            parts.push(bytes.subarray(start, segmentEnd));
+        }
+    });
+    if (!inserted) parts.push(...ours);
+    parts.push(bytes.subarray(end));
+    return concatBytes(parts);
+};
+
+const readFromJpeg = (bytes: Uint8Array): string | null => {
+    let fromComment: string | null = null;
+    let fromXmp: string | null = null;
+    forEachJpegSegment(bytes, (marker, start, end) => {
+        if (!isOurJpegSegment(bytes, marker, start, end)) return;
+        const payload = bytesToText(bytes.subarray(start + 4, end));
+        if (marker === COM) {
+            fromComment = payload.slice(METADATA_KEY.length + 1);
+        } else {
+            const match = payload.match(/spark:generation="([^"]*)"/);
+            if (match) fromXmp = unescapeXml(match[1]);
+        }
+    });
+    return fromComment ?? fromXmp;
+};
+
+// --- Public API ---
+
+// The file's bytes with `metadata` embedded, or unchanged when there is none to add or the
+// format can't hold it.
+export const embedMetadata = (dataUrl: string, metadata?: GenerationMetadata): Uint8Array<ArrayBuffer> => {
+    const bytes = dataUrlToBytes(dataUrl);
+    if (!metadata) return bytes;
+    if (isPng(bytes)) return embedInPng(bytes, metadata);
+    if (isJpeg(bytes)) return embedInJpeg(bytes, metadata);
+    return bytes;
+};
+
+// The settings a Spark download carries, or null for any other image.
+export const readMetadata = (bytes: Uint8Array): GenerationMetadata | null => {
+    const json = isPng(bytes) ? readFromPng(bytes) : isJpeg(bytes) ? readFromJpeg(bytes) : null;
+    if (!json) return null;
+    try {
+        const metadata = JSON.parse(json);
+        return typeof metadata?.prompt === 'string' ? metadata as GenerationMetadata : null;
+    } catch {
+        return null;
+    }
+};
+
+export const readMetadataFromFile = async (file: Blob): Promise<GenerationMetadata | null> =>
+    readMetadata(new Uint8Array(await file.arrayBuffer()));
+
+// Saves the image with an extension that matches its real type and, when given, its settings.
+export const downloadImage = (dataUrl: string, baseName: string, metadata?: GenerationMetadata) => {
+    const mimeType = mimeTypeOf(dataUrl);
+    const url = URL.createObjectURL(new Blob([embedMetadata(dataUrl, metadata)], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}.${extensionFor(mimeType)}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,165 @@
+import { createCanvas, loadImage } from './canvas';
+
+// Every image the user uploads goes through here before it is shown or sent anywhere: it is
+// turned upright according to its EXIF orientation, scaled down to a sensible size and
+// re-encoded. Re-encoding through a canvas drops all EXIF data, including GPS location, so
+// nothing but the pixels leaves the device.
+
+export type UploadFormat = 'image/webp' | 'image/jpeg';
+
+export interface PreprocessOptions {
+    // Longest side of the result in pixels; larger images are scaled down to fit.
+    maxEdge?: number;
+    format?: UploadFormat;
+    // Encoder quality between 0 and 1.
+    quality?: number;
+    // Files bigger than this are rejected before they are decoded.
+    maxFileBytes?: number;
+}
+
+export interface PreparedImage {
+    data: string; // raw base64
+    mimeType: string;
+    previewUrl: string; // data URL for <img>
+}
+
+// Thrown with a message that can be shown to the user as is.
+export class UploadRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UploadRejectedError';
+    }
+}
+
+const DEFAULT_OPTIONS: Required<PreprocessOptions> = {
+    maxEdge: 2048,
+    format: 'image/webp',
+    quality: 0.9,
+    maxFileBytes: 25 * 1024 * 1024,
+};
+
+// Decoding anything bigger than this risks running a phone out of memory.
+const MAX_DECODED_PIXELS = 60_000_000;
+
+const SUPPORTED_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// For the `accept` attribute of upload inputs.
+export const UPLOAD_ACCEPT = SUPPORTED_TYPES.join(', ');
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// EXIF orientation (1–8) of a JPEG, or 1 when it has none.
+const readExifOrientation = (bytes: Uint8Array): number => {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return 1;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        const length = view.getUint16(offset + 2);
+        // APP1 holding "Exif\0\0" followed by a TIFF header.
+        if (marker === 0xe1 && view.getUint32(offset + 4) === 0x45786966) {
+            const tiff = offset + 10;
+            const little = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, little);
+            const entries = view.getUint16(ifd, little);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > bytes.length) break;
+                if (view.getUint16(entry, little) === 0x0112) {
+                    const orientation = view.getUint16(entry + 8, little);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        if (marker === 0xda) break;
+        offset += 2 + length;
+    }
+    return 1;
+};
+
+// Browsers that understand `image-orientation` already decode JPEGs upright; older ones
+// hand us the raw sensor orientation and we rotate it ourselves.
+const browserAppliesOrientation = () =>
+    typeof CSS !== 'undefined' && CSS.supports?.('image-orientation', 'from-image');
+
+// Sets up `ctx` so drawing the raw image at (0, 0) with size `width`×`height` (before
+// rotation) comes out upright.
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+    switch (orientation) {
+        case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+        case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+        case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+        case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+        case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+        case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+        case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+    }
+};
+
+const readAsBytes = (file: Blob): Promise<Uint8Array> => file.arrayBuffer().then(buffer => new Uint8Array(buffer));
+
+export const preprocessImageFile = async (file: File, options: PreprocessOptions = {}): Promise<PreparedImage> => {
+    const { maxEdge, format, quality, maxFileBytes } = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!SUPPORTED_TYPES.includes(file.type)) {
+        const kind = file.type.includes('heic') || file.type.includes('heif') ? 'HEIC photos' : `"${file.type || file.name}" files`;
+        throw new UploadRejectedError(`${kind} aren't supported. Please upload a PNG, JPEG or WebP image.`);
+    }
+    if (file.size > maxFileBytes) {
+        throw new UploadRejectedError(`This image is ${formatSize(file.size)}; the limit is ${formatSize(maxFileBytes)}.`);
+    }
+
+    const orientation = file.type === 'image/jpeg' && !browserAppliesOrientation()
+        ? readExifOrientation(await readAsBytes(file))
+        : 1;
+
+    const url = URL.createObjectURL(file);
+    let img: HTMLImageElement;
+    try {
+        img = await loadImage(url);
+    } catch {
+        throw new UploadRejectedError("This image couldn't be read. The file may be damaged.");
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+    if (img.naturalWidth * img.naturalHeight > MAX_DECODED_PIXELS) {
+        throw new UploadRejectedError(`This image is ${img.naturalWidth}×${img.naturalHeight} pixels, which is too large to process. Please use a smaller version.`);
+    }
+
+    // Orientations 5–8 swap width and height.
+    const swapsAxes = orientation >= 5;
+    const uprightWidth = swapsAxes ? img.naturalHeight : img.naturalWidth;
+    const uprightHeight = swapsAxes ? img.naturalWidth : img.naturalHeight;
+    const scale = Math.min(1, maxEdge / Math.max(uprightWidth, uprightHeight));
+    const width = Math.max(1, Math.round(uprightWidth * scale));
+    const height = Math.max(1, Math.round(uprightHeight * scale));
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    if (format === 'image/jpeg') {
+        // JPEG has no transparency; give see-through areas a white background instead of black.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    const drawWidth = swapsAxes ? height : width;
+    const drawHeight = swapsAxes ? width : height;
+    applyOrientation(ctx, orientation, drawWidth, drawHeight);
+    ctx.drawImage(img, 0, 0, drawWidth, drawHeight);
+
+    let previewUrl = canvas.toDataURL(format, quality);
+    // Browsers that can't encode WebP quietly return a PNG; fall back to JPEG instead.
+    if (!previewUrl.startsWith(`data:${format}`)) {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        previewUrl = canvas.toDataURL('image/jpeg', quality);
+    }
+    const mimeType = previewUrl.substring(previewUrl.indexOf(':') + 1, previewUrl.indexOf(';'));
+    return { data: previewUrl.split(',')[1], mimeType, previewUrl };
+};
+
+// What to tell the user when `preprocessImageFile` fails.
+export const uploadErrorMessage = (error: unknown): string =>
+    error instanceof UploadRejectedError ? error.message : "Something went wrong while reading the image. Please try another file.";
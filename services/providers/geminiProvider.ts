@@ -0,0 +1,396 @@
+import { Modality, Type } from "@google/genai";
+import { AIProvider, UploadedImagePayload, ReferenceImagePayload, ReferenceRole, ImageAspectRatio, VideoResolution, VideoAspectRatio, PromptTarget, ThumbnailScore, ScoreTarget, RequestOptions } from './types';
+import { sleep, throwIfAborted } from '../abort';
+import { createGenAIClient, resolveFileUrl } from '../apiConfig';
+import { TimeoutError, SafetyBlockedError, EmptyResponseError, emptyResponseError, httpError, toGenerationError } from '../errors';
+
+export const GEMINI_MODELS = {
+    image: 'gemini-2.5-flash-image',
+    text: 'gemini-2.5-flash',
+    speech: 'gemini-2.5-flash-preview-tts',
+    video: 'veo-3.1-fast-generate-preview',
+};
+
+// Clients are created per call, never at module load: accessing `process.env.API_KEY` at the top
+// level can cause a `ReferenceError: process is not defined` in the browser if the build did not
+// replace it. A missing key then surfaces as an error on the user's action instead of a blank screen.
+const createClient = () => createGenAIClient();
+
+// How the model should use a reference image in each role.
+const REFERENCE_ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+    subject: 'the subject or character: keep their identity, face, features and outfit recognisable',
+    style: 'a style sample: match its palette, rendering, lighting and texture, but not its content',
+    background: 'the background or setting: place the scene in this environment',
+    pose: 'a pose reference: match the body pose and framing, but not the person, clothing or style',
+    product: 'a product or logo: reproduce it faithfully with its exact shape, colours and lettering, without redrawing or restyling it',
+};
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+const imageParts = (images: UploadedImagePayload[]) =>
+    images.map(({ data, mimeType }) => ({ inlineData: { data, mimeType } }));
+
+// One sentence per reference image, numbered by its position among all the images sent.
+const describeReferences = (references: ReferenceImagePayload[], firstPosition: number): string =>
+    references
+        .map((reference, i) => `The ${ORDINALS[firstPosition + i - 1] ?? `#${firstPosition + i}`} image is ${REFERENCE_ROLE_INSTRUCTIONS[reference.role]}.`)
+        .join(' ');
+
+const generateImage = async (
+    prompt: string,
+    aspectRatio: ImageAspectRatio,
+    uploadedImage?: UploadedImagePayload,
+    references: ReferenceImagePayload[] = [],
+    _variant?: number,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    const ai = createClient();
+    try {
+        const parts: any[] = [];
+        if (uploadedImage) {
+            // Image-to-Image / Edit
+            parts.push(...imageParts([uploadedImage, ...references]));
+
+            // Add a more descriptive instruction if reference images are present
+            const instruction = references.length > 0
+                ? `Edit the first image based on the text prompt. ${describeReferences(references, 2)} Text prompt: "${prompt}"`
+                : prompt;
+            parts.push({ text: instruction });
+        } else {
+            // Text-to-Image using the flash image model to ensure compatibility with user's API key.
+            // This model is generally available and avoids permission issues seen with more specialized models like Imagen.
+            // Instruct the model about the desired aspect ratio within the prompt itself.
+            parts.push(...imageParts(references));
+            const instruction = references.length > 0 ? ` ${describeReferences(references, 1)}` : '';
+            parts.push({ text: `${prompt}. The final generated image MUST have a strict aspect ratio of ${aspectRatio}.${instruction}` });
+        }
+
+        // This model generates one image per call; callers make one request per image.
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODELS.image,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            }
+        });
+
+        const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+        if (!imagePart?.inlineData) {
+            throw emptyResponseError(response, 'an image');
+        }
+        const { mimeType, data } = imagePart.inlineData;
+        return `data:${mimeType};base64,${data}`;
+    } catch (error) {
+        console.error("Error generating image:", error);
+        throw toGenerationError(error);
+    }
+};
+
+const editImageWithChat = async (
+    baseImage: UploadedImagePayload,
+    prompt: string,
+    references: ReferenceImagePayload[] = [],
+    mask?: UploadedImagePayload,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    const ai = createClient();
+    
+    try {
+        const parts: any[] = imageParts(mask ? [baseImage, mask, ...references] : [baseImage, ...references]);
+        
+        const maskInstruction = mask
+            ? ` The second image is a black-and-white mask of the same size as the main image. Only change the area that is white in the mask; keep everything in the black area exactly as it is, and blend the edit naturally into its surroundings. Return the full edited image, not the mask.`
+            : '';
+        const referenceInstruction = references.length > 0 ? ` ${describeReferences(references, mask ? 3 : 2)}` : '';
+        const instruction = `Your task is to edit the main image based on the user's request. Follow the user's text prompt precisely.${maskInstruction}${referenceInstruction} User's prompt: "${prompt}"`;
+        parts.push({ text: instruction });
+
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODELS.image,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            }
+        });
+        
+        const imagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+        if (imagePart?.inlineData) {
+            const { mimeType, data } = imagePart.inlineData;
+            return `data:${mimeType};base64,${data}`;
+        } else {
+            throw emptyResponseError(response, 'an image');
+        }
+
+    } catch (error) {
+        console.error("Error editing image with chat:", error);
+        throw toGenerationError(error);
+    }
+};
+
+const generatePromptFromImage = async (
+    imageData: string,
+    mimeType: string,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    const ai = createClient();
+    try {
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODELS.text,
+            contents: {
+                parts: [
+                    { text: "Analyze this image. If it contains significant, legible text (like a sign, a book cover, or a meme), extract that text as the primary content for a prompt. If there is no text or the text is minor/illegible, instead generate a concise, descriptive prompt about the visual content, focusing on the main subject, setting, and style." },
+                    { inlineData: { data: imageData, mimeType: mimeType } }
+                ]
+            },
+            config: { abortSignal: signal },
+        });
+        const text = response.text?.trim();
+        if (!text) {
+            throw emptyResponseError(response, 'a description');
+        }
+        return text;
+    } catch (error) {
+        console.error("Error generating prompt from image:", error);
+        throw toGenerationError(error);
+    }
+};
+
+const ENHANCE_TARGETS: Record<PromptTarget, { model: string; notes: string }> = {
+    image: {
+        model: 'an image generation model',
+        notes: '',
+    },
+    thumbnail: {
+        model: 'a thumbnail generator',
+        notes: ' Favour one bold, instantly readable focal point, strong contrast and saturated colour, and leave room for a title. Do not add any text to the picture unless the prompt asks for it.',
+    },
+    video: {
+        model: 'a text-to-video model',
+        notes: ' Also describe the camera movement and how the shot unfolds over a few seconds.',
+    },
+};
+
+const enhancePrompt = async (
+    prompt: string,
+    target: PromptTarget,
+    style: string | undefined,
+    format: string | undefined,
+    count: number,
+    { signal }: RequestOptions = {}
+): Promise<string[]> => {
+    const ai = createClient();
+    const { notes } = ENHANCE_TARGETS[target];
+    const model = format ? `an image generator making a ${format}` : ENHANCE_TARGETS[target].model;
+    const styleInstruction = style
+        ? ` The result will be rendered in a ${style} style, so pick details that suit it: lens, aperture and natural light for photographic styles, palette and brushwork for illustrated ones, materials and render lighting for 3D.`
+        : '';
+    try {
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODELS.text,
+            contents: `Rewrite the user's short prompt for ${model} into a detailed one. Keep the user's subject, intent and anything they specified, and add concrete details about the subject, composition, lighting, lens or camera, and mood.${styleInstruction}${notes} Each rewrite is a single paragraph of at most 80 words, with no preamble, quotes or markdown. Write ${count} rewrites that take noticeably different creative directions. User's prompt: "${prompt}"`,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+                abortSignal: signal,
+            },
+        });
+        let rewrites: unknown;
+        try {
+            rewrites = JSON.parse(response.text ?? '');
+        } catch {
+            rewrites = null;
+        }
+        const prompts = Array.isArray(rewrites)
+            ? rewrites.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+            : [];
+        if (prompts.length === 0) {
+            throw emptyResponseError(response, 'a rewritten prompt');
+        }
+        return prompts.slice(0, count);
+    } catch (error) {
+        console.error("Error enhancing prompt:", error);
+        throw toGenerationError(error);
+    }
+};
+
+const clampScore = (value: unknown): number | null =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(10, Math.max(0, Math.round(value * 10) / 10)) : null;
+
+const scoreThumbnail = async (
+    image: UploadedImagePayload,
+    smallPreview: UploadedImagePayload,
+    topic: string,
+    target: ScoreTarget,
+    { signal }: RequestOptions = {}
+): Promise<ThumbnailScore> => {
+    const ai = createClient();
+    const scoreProperty = { type: Type.NUMBER, description: 'From 0 (poor) to 10 (excellent).' };
+    try {
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODELS.text,
+            contents: {
+                parts: [
+                    ...imageParts([image, smallPreview]),
+                    { text: `You are an experienced social media designer reviewing a candidate ${target.description} about: "${topic}". The first image is it at full size; the second is the same image at the size it appears in ${target.smallView}. Score it honestly from 0 to 10 on: readability (does it still read at the small size), focalPoint (is there one clear subject the eye goes to first), contrast (between subject, text and background), emotionalHook (does it provoke curiosity or emotion that makes people click) and textLegibility (is any text short, large and easy to read; if there is no text, whether the image works without it). Give an overall score for how likely it is to be clicked, not an average. Then give two to four concrete, specific suggestions that would improve it, most important first, each one short sentence.` },
+                ],
+            },
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        readability: scoreProperty,
+                        focalPoint: scoreProperty,
+                        contrast: scoreProperty,
+                        emotionalHook: scoreProperty,
+                        textLegibility: scoreProperty,
+                        overall: scoreProperty,
+                        suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    },
+                    required: ['readability', 'focalPoint', 'contrast', 'emotionalHook', 'textLegibility', 'overall', 'suggestions'],
+                    propertyOrdering: ['readability', 'focalPoint', 'contrast', 'emotionalHook', 'textLegibility', 'overall', 'suggestions'],
+                },
+                abortSignal: signal,
+            },
+        });
+        let parsed: Record<string, unknown> | null;
+        try {
+            parsed = JSON.parse(response.text ?? '');
+        } catch {
+            parsed = null;
+        }
+        const scores = {
+            readability: clampScore(parsed?.readability),
+            focalPoint: clampScore(parsed?.focalPoint),
+            contrast: clampScore(parsed?.contrast),
+            emotionalHook: clampScore(parsed?.emotionalHook),
+            textLegibility: clampScore(parsed?.textLegibility),
+            overall: clampScore(parsed?.overall),
+        };
+        if (Object.values(scores).some(score => score === null)) {
+            throw emptyResponseError(response, 'a score');
+        }
+        const suggestions = Array.isArray(parsed?.suggestions)
+            ? parsed.suggestions.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+            : [];
+        return { ...(scores as Record<keyof typeof scores, number>), suggestions };
+    } catch (error) {
+        console.error("Error scoring thumbnail:", error);
+        throw toGenerationError(error);
+    }
+};
+
+const generateSpeech = async (
+    text: string,
+    voiceName: string,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    const ai = createClient();
+    try {
+        const response = await ai.models.generateContent({
+            model: GEMINI_MODELS.speech,
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                        prebuiltVoiceConfig: { voiceName },
+                    },
+                },
+                abortSignal: signal,
+            },
+        });
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) {
+            throw emptyResponseError(response, 'any audio');
+        }
+        return base64Audio;
+    } catch (error) {
+        console.error("Error generating speech:", error);
+        throw toGenerationError(error);
+    }
+};
+
+const generateVideo = async (
+    prompt: string,
+    resolution: VideoResolution,
+    aspectRatio: VideoAspectRatio,
+    updateLoadingMessage: (message: string) => void,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    // A new GoogleGenAI instance must be created for each Veo call
+    // to ensure the latest API key from the selection dialog is used.
+    const ai = createClient();
+    
+    try {
+        updateLoadingMessage("Starting video generation...");
+        let operation = await ai.models.generateVideos({
+            model: GEMINI_MODELS.video,
+            prompt,
+            config: {
+                numberOfVideos: 1,
+                resolution,
+                aspectRatio,
+                abortSignal: signal,
+            }
+        });
+
+        updateLoadingMessage("Processing your request... This may take a few minutes.");
+        let pollCount = 0;
+        const maxPolls = 30; // 5 minutes max wait time
+        while (!operation.done && pollCount < maxPolls) {
+            await sleep(10000, signal);
+            operation = await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+            pollCount++;
+            updateLoadingMessage(`Checking status... (${pollCount * 10}s elapsed)`);
+        }
+
+        if (!operation.done) {
+            throw new TimeoutError("Video generation timed out. Please try again with a simpler prompt.");
+        }
+
+        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (!downloadLink) {
+            const filteredCount = operation.response?.raiMediaFilteredCount;
+            if (filteredCount) {
+                throw new SafetyBlockedError(operation.response?.raiMediaFilteredReasons?.[0] || "The video was blocked by the safety filters.");
+            }
+            throw new EmptyResponseError("The model did not return a video. Please try again.");
+        }
+
+        updateLoadingMessage("Fetching your video...");
+        // Direct mode appends the API key to the URI; proxy mode routes it through the server.
+        const videoUrl = resolveFileUrl(downloadLink);
+        
+        // Fetch the video to convert it to a blob URL, which is safer for the <video> tag
+        const videoResponse = await fetch(videoUrl, { signal });
+        if (!videoResponse.ok) {
+            throw httpError(videoResponse, `Failed to fetch video data (status: ${videoResponse.status}).`);
+        }
+        const videoBlob = await videoResponse.blob();
+        // Don't hand back a blob URL nobody is waiting for; it would never be revoked.
+        throwIfAborted(signal);
+        return URL.createObjectURL(videoBlob);
+
+    } catch (error) {
+        console.error("Error generating video:", error);
+        // Rethrow to be caught by the component
+        throw toGenerationError(error);
+    }
+};
+
+export const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    description: 'Gemini image, speech and Veo video models. Requires an API key.',
+    imageModel: GEMINI_MODELS.image,
+    generateImage,
+    editImageWithChat,
+    generatePromptFromImage,
+    enhancePrompt,
+    scoreThumbnail,
+    generateSpeech,
+    generateVideo,
+};
@@ -0,0 +1,37 @@
+import { AIProvider, ProviderId } from './types';
+import { geminiProvider } from './geminiProvider';
+import { localProvider } from './localProvider';
+
+export * from './types';
+
+const PROVIDER_STORAGE_KEY = 'spark-provider';
+
+export const providers: Record<ProviderId, AIProvider> = {
+    gemini: geminiProvider,
+    local: localProvider,
+};
+
+const readStoredProviderId = (): ProviderId => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        return stored && Object.hasOwn(providers, stored) ? (stored as ProviderId) : 'gemini';
+    } catch {
+        return 'gemini';
+    }
+};
+
+let activeProviderId: ProviderId = readStoredProviderId();
+
+export const getActiveProviderId = (): ProviderId => activeProviderId;
+
+export const getActiveProvider = (): AIProvider => providers[activeProviderId];
+
+export const setActiveProvider = (id: ProviderId) => {
+    activeProviderId = id;
+    // The choice still applies for this session if it can't be stored.
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (error) {
+        console.error("Could not save the provider choice:", error);
+    }
+};
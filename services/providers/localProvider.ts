@@ -0,0 +1,320 @@
+import { AIProvider, UploadedImagePayload, ReferenceImagePayload, ImageAspectRatio, VideoResolution, VideoAspectRatio, PromptTarget, ThumbnailScore, ScoreTarget, RequestOptions } from './types';
+import { sleep, throwIfAborted } from '../abort';
+import { loadImage, createCanvas } from '../canvas';
+
+// A deterministic, offline stand-in for the Gemini backend. It needs no API key and
+// no network, so every generator view can be developed, demoed and tested locally.
+// The same inputs always produce the same outputs.
+
+const SIMULATED_LATENCY_MS = 600;
+const PCM_SAMPLE_RATE = 24000;
+
+// FNV-1a, used to derive stable colours, tones and captions from the inputs.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const imageDimensions = (aspectRatio: ImageAspectRatio): { width: number; height: number } => {
+    switch (aspectRatio) {
+        case '1:1': return { width: 1024, height: 1024 };
+        case '9:16': return { width: 576, height: 1024 };
+        case '16:9':
+        default:
+            return { width: 1024, height: 576 };
+    }
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, lines: string[]) => {
+    const fontSize = Math.round(Math.min(width, height) / 18);
+    const padding = fontSize;
+    const boxHeight = lines.length * fontSize * 1.3 + padding;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, height - boxHeight, width, boxHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    lines.forEach((line, i) => {
+        ctx.fillText(line, padding, height - boxHeight + padding / 2 + i * fontSize * 1.3, width - padding * 2);
+    });
+};
+
+const wrapText = (text: string, maxChars: number, maxLines: number): string[] => {
+    const words = text.replace(/\s+/g, ' ').trim().split(' ');
+    const lines: string[] = [];
+    let current = '';
+    for (const word of words) {
+        if ((current + ' ' + word).trim().length > maxChars) {
+            lines.push(current);
+            current = word;
+            if (lines.length === maxLines) break;
+        } else {
+            current = (current + ' ' + word).trim();
+        }
+    }
+    if (lines.length < maxLines && current) lines.push(current);
+    if (lines.length === maxLines && words.join(' ').length > lines.join(' ').length) {
+        lines[maxLines - 1] = lines[maxLines - 1].replace(/.{0,3}$/, '...');
+    }
+    return lines;
+};
+
+const renderPlaceholder = async (
+    prompt: string,
+    width: number,
+    height: number,
+    seed: number,
+    label: string,
+    baseImage?: UploadedImagePayload
+): Promise<string> => {
+    const { canvas, ctx } = createCanvas(width, height);
+    const hue = seed % 360;
+
+    if (baseImage) {
+        const img = await loadImage(`data:${baseImage.mimeType};base64,${baseImage.data}`);
+        // Cover-fit the source so the output keeps the requested dimensions.
+        const scale = Math.max(width / img.width, height / img.height);
+        const drawWidth = img.width * scale;
+        const drawHeight = img.height * scale;
+        ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+        ctx.fillStyle = `hsla(${hue}, 80%, 50%, 0.25)`;
+        ctx.fillRect(0, 0, width, height);
+    } else {
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 140) % 360}, 70%, 30%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+
+        for (let i = 0; i < 6; i++) {
+            const n = hashString(`${seed}-${i}`);
+            ctx.beginPath();
+            ctx.arc(n % width, (n >>> 8) % height, 20 + (n % Math.round(Math.min(width, height) / 4)), 0, Math.PI * 2);
+            ctx.fillStyle = `hsla(${(hue + i * 40) % 360}, 80%, 70%, 0.35)`;
+            ctx.fill();
+        }
+    }
+
+    drawCaption(ctx, width, height, [label, ...wrapText(prompt, Math.round(width / 22), 2)]);
+    return canvas.toDataURL('image/png');
+};
+
+const generateImage = async (
+    prompt: string,
+    aspectRatio: ImageAspectRatio,
+    uploadedImage?: UploadedImagePayload,
+    _references?: ReferenceImagePayload[],
+    variant = 0,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    await sleep(SIMULATED_LATENCY_MS * (1 + variant * 0.5), signal);
+    const { width, height } = imageDimensions(aspectRatio);
+    const seed = hashString(`${prompt}|${aspectRatio}|${uploadedImage?.data.length ?? 0}`) + variant * 47;
+    return renderPlaceholder(prompt, width, height, seed, `Local preview ${variant + 1}`, uploadedImage);
+};
+
+const editImageWithChat = async (
+    baseImage: UploadedImagePayload,
+    prompt: string,
+    _references?: ReferenceImagePayload[],
+    // The placeholder covers the whole frame; the service composites it back through the mask.
+    _mask?: UploadedImagePayload,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    await sleep(SIMULATED_LATENCY_MS, signal);
+    const img = await loadImage(`data:${baseImage.mimeType};base64,${baseImage.data}`);
+    return renderPlaceholder(prompt, img.width, img.height, hashString(prompt), 'Local edit', baseImage);
+};
+
+const generatePromptFromImage = async (
+    imageData: string,
+    mimeType: string,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    await sleep(SIMULATED_LATENCY_MS / 2, signal);
+    const img = await loadImage(`data:${mimeType};base64,${imageData}`);
+    const orientation = img.width === img.height ? 'square' : (img.width > img.height ? 'landscape' : 'portrait');
+    return `A ${orientation} scene with a clear central subject, soft natural lighting and a shallow depth of field (local preview ${hashString(imageData) % 1000}).`;
+};
+
+// Building blocks for the offline prompt rewrites; each rewrite takes one from every list.
+const ENHANCE_DETAILS = {
+    composition: ['centred in a balanced composition', 'framed by the rule of thirds', 'seen from a low, heroic angle', 'in a wide establishing shot'],
+    lighting: ['warm golden-hour light', 'soft overcast light', 'dramatic rim lighting', 'cool blue-hour light'],
+    lens: ['a 35mm lens', 'an 85mm lens at f/1.8', 'a 24mm wide-angle lens', 'a 50mm lens'],
+    mood: ['calm and nostalgic', 'bold and energetic', 'mysterious and cinematic', 'bright and playful'],
+};
+
+const ENHANCE_TARGET_NOTES: Record<PromptTarget, string> = {
+    image: '',
+    thumbnail: ' One bold focal point, high contrast and saturated colour, with room for a title.',
+    video: ' The camera slowly pushes in as the scene unfolds.',
+};
+
+const enhancePrompt = async (
+    prompt: string,
+    target: PromptTarget,
+    style: string | undefined,
+    _format: string | undefined,
+    count: number,
+    { signal }: RequestOptions = {}
+): Promise<string[]> => {
+    await sleep(SIMULATED_LATENCY_MS / 2, signal);
+    const subject = prompt.trim().replace(/[.!]+$/, '');
+    const seed = hashString(`${prompt}|${target}|${style ?? ''}`);
+    const pick = (options: string[], i: number) => options[(seed + i * 3) % options.length];
+    return Array.from({ length: count }, (_, i) => {
+        const styled = style ? `, in a ${style.toLowerCase()} style` : '';
+        return `${subject}${styled}, ${pick(ENHANCE_DETAILS.composition, i)}, shot with ${pick(ENHANCE_DETAILS.lens, i + 1)} in ${pick(ENHANCE_DETAILS.lighting, i + 2)}. The mood is ${pick(ENHANCE_DETAILS.mood, i + 3)}.${ENHANCE_TARGET_NOTES[target]}`;
+    });
+};
+
+const SCORE_SUGGESTIONS = [
+    'Make the subject bigger so it fills at least a third of the frame.',
+    'Cut the title down to three or four words.',
+    'Push the background darker so the subject stands out.',
+    'Show a clear facial expression to give viewers a reason to click.',
+    'Move the text away from the edges, where the platform covers or crops it.',
+    'Use one bold accent colour instead of several competing ones.',
+];
+
+// Deterministic scores from the image bytes, so the same thumbnail always scores the same.
+const scoreThumbnail = async (
+    image: UploadedImagePayload,
+    _smallPreview: UploadedImagePayload,
+    topic: string,
+    _target: ScoreTarget,
+    { signal }: RequestOptions = {}
+): Promise<ThumbnailScore> => {
+    await sleep(SIMULATED_LATENCY_MS / 2, signal);
+    const seed = hashString(`${image.data}|${topic}`);
+    const score = (i: number) => 4 + (hashString(`${seed}-${i}`) % 61) / 10;
+    const scores = {
+        readability: score(0),
+        focalPoint: score(1),
+        contrast: score(2),
+        emotionalHook: score(3),
+        textLegibility: score(4),
+    };
+    const overall = Math.round(Object.values(scores).reduce((sum, value) => sum + value, 0) / 5 * 10) / 10;
+    const suggestions = [0, 1].map(i => SCORE_SUGGESTIONS[(seed + i * 5) % SCORE_SUGGESTIONS.length]);
+    return { ...scores, overall, suggestions };
+};
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+const generateSpeech = async (
+    text: string,
+    voiceName: string,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    await sleep(SIMULATED_LATENCY_MS / 2, signal);
+    // A short synthetic "speech" tone whose pitch depends on the voice and whose
+    // length and syllable rhythm depend on the text.
+    const durationSeconds = Math.min(6, Math.max(1, 0.5 + text.length * 0.04));
+    const sampleCount = Math.round(PCM_SAMPLE_RATE * durationSeconds);
+    const frequency = 140 + (hashString(voiceName) % 180);
+    const syllableRate = 3 + (hashString(text) % 3);
+    const samples = new Int16Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) {
+        const t = i / PCM_SAMPLE_RATE;
+        const fade = Math.min(1, t * 20, (durationSeconds - t) * 20);
+        const syllable = 0.5 + 0.5 * Math.sin(2 * Math.PI * syllableRate * t);
+        const tone = Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(4 * Math.PI * frequency * t);
+        samples[i] = Math.round(tone * syllable * fade * 0.25 * 0x7fff);
+    }
+    return encodeBase64(new Uint8Array(samples.buffer));
+};
+
+const pickVideoMimeType = (): string | undefined => {
+    const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+    return candidates.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+const generateVideo = async (
+    prompt: string,
+    _resolution: VideoResolution,
+    aspectRatio: VideoAspectRatio,
+    updateLoadingMessage: (message: string) => void,
+    { signal }: RequestOptions = {}
+): Promise<string> => {
+    throwIfAborted(signal);
+    if (typeof MediaRecorder === 'undefined') {
+        throw new Error("This browser cannot record the local sample video.");
+    }
+    updateLoadingMessage("Rendering local sample video...");
+
+    // Always a tiny clip, regardless of the requested resolution.
+    const width = aspectRatio === '9:16' ? 180 : 320;
+    const height = aspectRatio === '9:16' ? 320 : 180;
+    const { canvas, ctx } = createCanvas(width, height);
+    const hue = hashString(prompt) % 360;
+    const durationMs = 2000;
+    const lines = wrapText(prompt, Math.round(width / 9), 2);
+
+    const drawFrame = (progress: number) => {
+        ctx.fillStyle = `hsl(${(hue + progress * 120) % 360}, 65%, 40%)`;
+        ctx.fillRect(0, 0, width, height);
+        ctx.beginPath();
+        ctx.arc(progress * width, height / 2, Math.min(width, height) / 6, 0, Math.PI * 2);
+        ctx.fillStyle = `hsl(${(hue + 180) % 360}, 80%, 65%)`;
+        ctx.fill();
+        drawCaption(ctx, width, height, lines);
+    };
+
+    drawFrame(0);
+    const stream = canvas.captureStream(30);
+    const recorder = new MediaRecorder(stream, { mimeType: pickVideoMimeType() });
+    const chunks: BlobPart[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+    const startedAt = performance.now();
+    await new Promise<void>(resolve => {
+        const tick = () => {
+            const progress = Math.min(1, (performance.now() - startedAt) / durationMs);
+            drawFrame(progress);
+            if (progress < 1 && !signal?.aborted) {
+                requestAnimationFrame(tick);
+            } else {
+                resolve();
+            }
+        };
+        requestAnimationFrame(tick);
+    });
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+    throwIfAborted(signal);
+
+    updateLoadingMessage("Fetching your video...");
+    return URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+};
+
+export const localProvider: AIProvider = {
+    id: 'local',
+    label: 'Local (offline)',
+    description: 'Deterministic placeholder images, tones and a sample clip. No key or network needed.',
+    imageModel: 'local-placeholder',
+    generateImage,
+    editImageWithChat,
+    generatePromptFromImage,
+    enhancePrompt,
+    scoreThumbnail,
+    generateSpeech,
+    generateVideo,
+};
@@ -0,0 +1,108 @@
+// Shared contract for every AI backend the app can talk to.
+// Views never talk to a provider directly; they go through `services/geminiService.ts`,
+// which forwards each call to whichever provider is currently active.
+
+export interface UploadedImagePayload {
+    data: string; // raw base64
+    mimeType: string;
+}
+
+// What a reference image is for; the instruction sent to the model describes each role.
+export type ReferenceRole = 'subject' | 'style' | 'background' | 'pose' | 'product';
+
+export interface ReferenceImagePayload extends UploadedImagePayload {
+    role: ReferenceRole;
+}
+
+export type ImageAspectRatio = '16:9' | '1:1' | '9:16';
+export type VideoResolution = '720p' | '1080p';
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export type ProviderId = 'gemini' | 'local';
+
+// What a prompt is going to be used for, so rewrites can favour the right details.
+export type PromptTarget = 'image' | 'thumbnail' | 'video';
+
+// A critique of one thumbnail. Every score runs from 0 (poor) to 10 (excellent).
+export interface ThumbnailScore {
+    // How well it still reads at the size it is shown in feeds and sidebars.
+    readability: number;
+    focalPoint: number;
+    contrast: number;
+    emotionalHook: number;
+    textLegibility: number;
+    overall: number;
+    // Concrete changes that would make it better, most important first.
+    suggestions: string[];
+}
+
+// What a scored image is for, so it is judged the way its platform shows it.
+export interface ScoreTarget {
+    // What is being made: "YouTube video thumbnail".
+    description: string;
+    // Where it is seen at the small preview's size: "YouTube's sidebar of suggested videos".
+    smallView: string;
+}
+
+export interface RequestOptions {
+    // Aborting rejects the call with a `CancelledError` and stops any further requests or polling.
+    signal?: AbortSignal;
+}
+
+export interface AIProvider {
+    id: ProviderId;
+    label: string;
+    description: string;
+    // The model behind `generateImage` and `editImageWithChat`, recorded with saved results.
+    imageModel: string;
+    // Returns a single data URL (`data:<mime>;base64,<data>`). `variant` tells apart
+    // several images requested with the same inputs.
+    generateImage: (
+        prompt: string,
+        aspectRatio: ImageAspectRatio,
+        uploadedImage?: UploadedImagePayload,
+        references?: ReferenceImagePayload[],
+        variant?: number,
+        options?: RequestOptions
+    ) => Promise<string>;
+    // Returns a single data URL for the edited image. `mask` is black and white, the same
+    // size as `baseImage`; white marks the only region the edit may change.
+    editImageWithChat: (
+        baseImage: UploadedImagePayload,
+        prompt: string,
+        references?: ReferenceImagePayload[],
+        mask?: UploadedImagePayload,
+        options?: RequestOptions
+    ) => Promise<string>;
+    generatePromptFromImage: (imageData: string, mimeType: string, options?: RequestOptions) => Promise<string>;
+    // Returns up to `count` different rewrites of a short prompt, each a complete prompt on
+    // its own. `style` is the visual style the result will be generated in, if any, and
+    // `format` what exactly is being made ("Instagram story"), when the target alone is vague.
+    enhancePrompt: (
+        prompt: string,
+        target: PromptTarget,
+        style: string | undefined,
+        format: string | undefined,
+        count: number,
+        options?: RequestOptions
+    ) => Promise<string[]>;
+    // Rates a thumbnail for `topic`. `smallPreview` is the same thumbnail at the size `target`
+    // is shown small, for judging how it reads there.
+    scoreThumbnail: (
+        image: UploadedImagePayload,
+        smallPreview: UploadedImagePayload,
+        topic: string,
+        target: ScoreTarget,
+        options?: RequestOptions
+    ) => Promise<ThumbnailScore>;
+    // Returns raw base64 PCM audio (16-bit, mono, 24kHz).
+    generateSpeech: (text: string, voiceName: string, options?: RequestOptions) => Promise<string>;
+    // Returns a blob URL the caller is responsible for revoking.
+    generateVideo: (
+        prompt: string,
+        resolution: VideoResolution,
+        aspectRatio: VideoAspectRatio,
+        updateLoadingMessage: (message: string) => void,
+        options?: RequestOptions
+    ) => Promise<string>;
+}
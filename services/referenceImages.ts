@@ -0,0 +1,27 @@
+import { ReferenceImagePayload, ReferenceRole } from './providers';
+
+// Reference images attached to a generation or edit. Each one has a role that tells the
+// model what to take from it; see the provider for the exact instruction per role.
+
+export interface ReferenceImage extends ReferenceImagePayload {
+    previewUrl: string; // data URL for <img>
+}
+
+// Enough for a product shot, a logo, a style sample and a background in one request.
+export const MAX_REFERENCE_IMAGES = 4;
+
+export const referenceRoles: ReferenceRole[] = ['subject', 'product', 'style', 'background', 'pose'];
+
+export const referenceRoleLabels: Record<ReferenceRole, string> = {
+    subject: 'Subject / character',
+    product: 'Product / logo',
+    style: 'Style',
+    background: 'Background',
+    pose: 'Pose',
+};
+
+// Reference images are only for guidance, so they don't need to be large.
+export const REFERENCE_UPLOAD = { maxEdge: 1024 };
+
+export const toReferencePayloads = (references: ReferenceImage[]): ReferenceImagePayload[] =>
+    references.map(({ data, mimeType, role }) => ({ data, mimeType, role }));
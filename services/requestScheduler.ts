@@ -0,0 +1,136 @@
+import { CancelledError, GenerationError, toGenerationError } from './errors';
+import { sleep } from './abort';
+
+// One queue shared by every generation call. It caps how many requests run at once and
+// retries transient failures (429 and 5xx) with exponential backoff, honouring the
+// server's Retry-After hint when there is one.
+
+export interface SchedulerConfig {
+    maxConcurrent: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // A server asking for a longer wait than this is treated as a hard failure.
+    maxRetryAfterMs: number;
+}
+
+export interface RetryWait {
+    attempt: number;
+    delayMs: number;
+    until: number; // epoch ms when the next attempt starts
+    error: GenerationError;
+}
+
+export interface ScheduleOptions {
+    signal?: AbortSignal;
+    onRetryWait?: (wait: RetryWait) => void;
+}
+
+// The most parallel requests the settings offer.
+export const MAX_CONCURRENCY = 4;
+
+const CONCURRENCY_STORAGE_KEY = 'spark-max-concurrency';
+const DEFAULT_CONCURRENCY = 2;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const readStoredConcurrency = (): number => {
+    try {
+        const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+        return Number.isInteger(stored) && stored >= 1 ? Math.min(stored, MAX_CONCURRENCY) : DEFAULT_CONCURRENCY;
+    } catch {
+        // Storage can be blocked (sandboxed iframes, strict privacy settings).
+        return DEFAULT_CONCURRENCY;
+    }
+};
+
+let config: SchedulerConfig = {
+    maxConcurrent: readStoredConcurrency(),
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    maxRetryAfterMs: 120000,
+};
+
+let active = 0;
+const waiting: Array<() => void> = [];
+
+const drain = () => {
+    while (active < config.maxConcurrent && waiting.length > 0) {
+        waiting.shift()!();
+    }
+};
+
+export const getSchedulerConfig = (): SchedulerConfig => config;
+
+export const configureScheduler = (changes: Partial<SchedulerConfig>) => {
+    config = { ...config, ...changes };
+    if (changes.maxConcurrent !== undefined) {
+        // The setting still applies for this session if it can't be stored.
+        try {
+            localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(config.maxConcurrent));
+        } catch (error) {
+            console.error("Could not save the concurrency setting:", error);
+        }
+    }
+    drain();
+};
+
+const acquire = (signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancelledError("The request was cancelled."));
+            return;
+        }
+        const start = () => {
+            signal?.removeEventListener('abort', onAbort);
+            active++;
+            resolve();
+        };
+        const onAbort = () => {
+            const index = waiting.indexOf(start);
+            if (index !== -1) waiting.splice(index, 1);
+            reject(new CancelledError("The request was cancelled."));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiting.push(start);
+        drain();
+    });
+
+const release = () => {
+    active--;
+    drain();
+};
+
+const isRetryable = (error: GenerationError) =>
+    error.status !== undefined && RETRYABLE_STATUSES.has(error.status);
+
+// Exponential backoff with "equal jitter": half the window is fixed, half is random.
+const backoffDelay = (attempt: number) => {
+    const window = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+    return window / 2 + Math.random() * (window / 2);
+};
+
+export const scheduleRequest = async <T>(
+    task: () => Promise<T>,
+    { signal, onRetryWait }: ScheduleOptions = {}
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        let failure: GenerationError;
+        await acquire(signal);
+        try {
+            return await task();
+        } catch (error) {
+            failure = toGenerationError(error);
+        } finally {
+            release();
+        }
+
+        const retryAfterMs = failure.retryAfterMs;
+        if (!isRetryable(failure) || attempt >= config.maxRetries || (retryAfterMs ?? 0) > config.maxRetryAfterMs) {
+            throw failure;
+        }
+        const delayMs = retryAfterMs ?? backoffDelay(attempt);
+        onRetryWait?.({ attempt: attempt + 1, delayMs, until: Date.now() + delayMs, error: failure });
+        await sleep(delayMs, signal);
+    }
+};
@@ -0,0 +1,221 @@
+import { ReferenceImagePayload } from './providers';
+
+// The looks every generator can produce. A preset describes its style as prompt fragments
+// (and optionally a reference image) that the generators weave into their own prompts via
+// `stylePhrase` and `styleGuidance`. The built-in library ships with the app; presets the
+// user creates or imports are kept in this browser.
+
+export interface StylePreset {
+    id: string;
+    name: string;
+    // How the style looks, e.g. "loose watercolour washes on textured paper".
+    prompt: string;
+    // What the style should stay away from, e.g. "hard outlines, photographic detail".
+    negative?: string;
+    // Data URL of an image whose look (not content) the results should match.
+    referenceImage?: string;
+}
+
+const STORAGE_KEY = 'spark-style-presets';
+const CHANGE_EVENT = 'spark:style-presets-changed';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_STYLE_PRESET_ID = 'realistic';
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+    {
+        id: 'realistic',
+        name: 'Realistic',
+        prompt: 'photorealistic, natural lighting, true-to-life colour and fine detail',
+        negative: 'illustration, cartoon or painterly effects',
+    },
+    {
+        id: 'ghibli',
+        name: 'Ghibli',
+        prompt: 'hand-painted Studio Ghibli-inspired animation, soft watercolour backgrounds, warm light and gentle, whimsical character design',
+        negative: 'photorealism, harsh shadows or 3D rendering',
+    },
+    {
+        id: '3d',
+        name: '3D',
+        prompt: 'polished 3D render with soft global illumination, smooth materials and a subtle depth of field',
+        negative: 'flat shading or sketchy lines',
+    },
+    {
+        id: 'watercolor',
+        name: 'Watercolor',
+        prompt: 'loose watercolour washes on textured paper, soft bleeding edges and a light, airy palette',
+        negative: 'hard outlines, digital gradients or photographic detail',
+    },
+    {
+        id: 'pixel-art',
+        name: 'Pixel Art',
+        prompt: 'crisp retro pixel art with a limited palette, clearly visible square pixels and no anti-aliasing',
+        negative: 'blur, smooth gradients or photographic detail',
+    },
+    {
+        id: 'anime',
+        name: 'Anime',
+        prompt: 'modern anime key art with clean line work, cel shading and vivid, saturated colour',
+        negative: 'photorealism or a western cartoon look',
+    },
+    {
+        id: 'cinematic',
+        name: 'Cinematic',
+        prompt: 'cinematic film still with widescreen framing, dramatic motivated lighting, shallow depth of field and a colour-graded look',
+        negative: 'flat lighting, snapshot framing or text overlays',
+    },
+    {
+        id: 'flat-vector',
+        name: 'Flat Vector',
+        prompt: 'flat vector illustration built from bold geometric shapes, a limited colour palette and clean edges',
+        negative: 'gradients, texture or 3D shading',
+    },
+    {
+        id: 'claymation',
+        name: 'Claymation',
+        prompt: 'handmade clay stop-motion look with visible fingerprints and tool marks, miniature sets and soft studio lighting',
+        negative: 'glossy CGI or photorealistic skin',
+    },
+    {
+        id: 'comic',
+        name: 'Comic Book',
+        prompt: 'comic book art with bold ink outlines, halftone shading and punchy primary colours',
+        negative: 'photorealism or soft airbrushing',
+    },
+    {
+        id: 'oil-painting',
+        name: 'Oil Painting',
+        prompt: 'classical oil painting with rich impasto brushwork, deep colour and chiaroscuro lighting',
+        negative: 'digital smoothness or flat colour',
+    },
+];
+
+const builtInIds = new Set(BUILT_IN_STYLE_PRESETS.map(preset => preset.id));
+
+export const isBuiltInStylePreset = (id: string) => builtInIds.has(id);
+
+const isStylePreset = (value: unknown): value is StylePreset => {
+    const preset = value as StylePreset;
+    return !!preset && typeof preset === 'object'
+        && typeof preset.id === 'string' && typeof preset.name === 'string' && typeof preset.prompt === 'string'
+        && (preset.negative === undefined || typeof preset.negative === 'string')
+        && (preset.referenceImage === undefined || (typeof preset.referenceImage === 'string' && preset.referenceImage.startsWith('data:image/')));
+};
+
+const readUserPresets = (): StylePreset[] => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter(isStylePreset) : [];
+    } catch {
+        return [];
+    }
+};
+
+const writeUserPresets = (presets: StylePreset[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.error("Could not save style presets:", error);
+        throw new Error("There's no room left to save this preset. Remove its reference image, or delete presets you no longer use.");
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+// Built-in presets first, then the user's own in the order they were created.
+export const listStylePresets = (): StylePreset[] => [...BUILT_IN_STYLE_PRESETS, ...readUserPresets()];
+
+// Falls back to the default preset when `id` no longer exists (e.g. it was deleted).
+export const getStylePreset = (id: string): StylePreset => {
+    const presets = listStylePresets();
+    return presets.find(preset => preset.id === id) ?? presets.find(preset => preset.id === DEFAULT_STYLE_PRESET_ID)!;
+};
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Looks a preset up by id or by name, ignoring case, spaces and punctuation, so that
+// "pixel art", "Pixel-Art" and "pixel-art" all match. Used for batch files and for
+// settings read back from downloaded images.
+export const findStylePreset = (idOrName: string): StylePreset | undefined => {
+    const wanted = normalizeName(idOrName);
+    return listStylePresets().find(preset => normalizeName(preset.id) === wanted || normalizeName(preset.name) === wanted);
+};
+
+// Adds the preset, or replaces the user preset with the same id. Throws an Error with a
+// message fit to show the user if it can't be stored.
+export const saveStylePreset = (preset: StylePreset) => {
+    if (isBuiltInStylePreset(preset.id)) {
+        throw new Error("Built-in presets can't be changed. Duplicate it and edit the copy instead.");
+    }
+    const presets = readUserPresets();
+    const index = presets.findIndex(existing => existing.id === preset.id);
+    writeUserPresets(index === -1 ? [...presets, preset] : presets.map(existing => existing.id === preset.id ? preset : existing));
+};
+
+export const deleteStylePreset = (id: string) => {
+    writeUserPresets(readUserPresets().filter(preset => preset.id !== id));
+};
+
+// Lets views react when presets are added, changed or removed (in this tab or another one).
+export const onStylePresetsChange = (listener: () => void): (() => void) => {
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === STORAGE_KEY) listener();
+    };
+    window.addEventListener(CHANGE_EVENT, listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+        window.removeEventListener(CHANGE_EVENT, listener);
+        window.removeEventListener('storage', handleStorage);
+    };
+};
+
+export const createStylePresetId = () => `custom-${crypto.randomUUID()}`;
+
+// For "in a …" phrases: "watercolor style (loose watercolour washes on textured paper, …)".
+export const stylePhrase = (preset: StylePreset): string =>
+    `${preset.name.toLowerCase()} style (${preset.prompt})`;
+
+// A sentence to add after the rest of the prompt saying what to avoid, or nothing when the
+// preset has no negative guidance.
+export const styleGuidance = (preset: StylePreset): string =>
+    preset.negative ? `Avoid ${preset.negative}.` : '';
+
+// The preset's reference image, to send along with any other reference images.
+export const styleReferencePayload = (preset: StylePreset): ReferenceImagePayload | undefined => {
+    if (!preset.referenceImage) return undefined;
+    const [header, data] = preset.referenceImage.split(',');
+    return { data, mimeType: header.substring(header.indexOf(':') + 1, header.indexOf(';')), role: 'style' };
+};
+
+export const exportStylePresets = (presets: StylePreset[]): Blob =>
+    new Blob([JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2)], { type: 'application/json' });
+
+// Reads a file written by `exportStylePresets` (or a bare array of presets). Imported presets
+// get fresh ids so they never overwrite existing ones. Throws an Error with a message fit to
+// show the user when the file can't be used.
+export const parseStylePresets = (text: string): StylePreset[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const items = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+    if (!Array.isArray(items) || items.length === 0) {
+        throw new Error('The file does not contain any style presets.');
+    }
+    return items.map((item, index) => {
+        const candidate = { ...(item as object), id: createStylePresetId() };
+        if (!isStylePreset(candidate) || !candidate.name.trim() || !candidate.prompt.trim()) {
+            throw new Error(`Preset ${index + 1} needs at least a "name" and a "prompt".`);
+        }
+        const { id, name, prompt, negative, referenceImage } = candidate;
+        return { id, name: name.trim(), prompt: prompt.trim(), negative: negative?.trim() || undefined, referenceImage };
+    });
+};
+
+// Saves imported presets all at once, so a file that doesn't fit leaves nothing half-imported.
+export const importStylePresets = (presets: StylePreset[]) => {
+    writeUserPresets([...readUserPresets(), ...presets]);
+};
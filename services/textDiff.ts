@@ -0,0 +1,52 @@
+// Word-level diff for showing what a rewrite changed. Whitespace stays attached to the word
+// before it, so joining the 'same' and 'added' segments gives back the new text exactly.
+
+export type DiffSegment = { type: 'same' | 'added' | 'removed'; text: string };
+
+const tokenize = (text: string): string[] => text.match(/\S+\s*|\s+/g) ?? [];
+
+// Compare words without their trailing whitespace, so a reflowed line isn't a change.
+const sameWord = (a: string, b: string) => a.trimEnd() === b.trimEnd();
+
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    // lengths[i][j] is the longest common subsequence of a[i..] and b[j..]. Prompts are a few
+    // hundred words at most, so the full table is fine.
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = sameWord(a[i], b[j])
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    const push = (type: DiffSegment['type'], text: string) => {
+        const last = segments[segments.length - 1];
+        if (last?.type === type) {
+            last.text += text;
+        } else {
+            segments.push({ type, text });
+        }
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (sameWord(a[i], b[j])) {
+            push('same', b[j]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    while (i < a.length) push('removed', a[i++]);
+    while (j < b.length) push('added', b[j++]);
+    return segments;
+};
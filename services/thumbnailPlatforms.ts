@@ -0,0 +1,175 @@
+import { AspectRatio } from '../types';
+import { ImageSize, ImageFitOptions, ratioValue } from './imageFit';
+
+// The places a thumbnail or cover can be made for. Each platform has its own exact pixel
+// size, wording for the prompt, and areas its own interface covers or crops. Image models
+// only produce a few ratios, so each platform asks for the nearest one and the result is
+// cropped to the exact size (see `services/imageFit.ts`).
+
+export type ThumbnailPlatformId =
+    | 'youtube'
+    | 'youtube-shorts'
+    | 'instagram-post'
+    | 'instagram-story'
+    | 'x-header'
+    | 'linkedin-banner'
+    | 'podcast-cover';
+
+// A rectangle as fractions of the image's width and height.
+export interface SafeZone {
+    label: string;
+    // 'covered' is hidden by the platform's interface or cropping; 'safe' outlines where the
+    // important content should stay.
+    kind: 'covered' | 'safe';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ThumbnailPlatform {
+    id: ThumbnailPlatformId;
+    name: string;
+    size: ImageSize;
+    // The exact ratio of the export ("3:1").
+    ratio: string;
+    // The ratio asked of the model, which the result is cropped from.
+    aspectRatio: AspectRatio;
+    // What is being made, for prompts: "YouTube video thumbnail".
+    description: string;
+    // Composition advice for the platform, added to the prompt.
+    guidance: string;
+    zones: SafeZone[];
+    // How small the platform shows it, for judging whether it still reads: the width in CSS
+    // pixels and where it is seen at that size.
+    smallView: { width: number; context: string };
+    // The export is far larger than anything the model produces, so it is scaled up rather
+    // than generated at that resolution.
+    upscaled?: boolean;
+}
+
+export const DEFAULT_THUMBNAIL_PLATFORM_ID: ThumbnailPlatformId = 'youtube';
+
+export const THUMBNAIL_PLATFORMS: ThumbnailPlatform[] = [
+    {
+        id: 'youtube',
+        name: 'YouTube video',
+        size: { width: 1280, height: 720 },
+        ratio: '16:9',
+        aspectRatio: AspectRatio.SixteenNine,
+        description: 'YouTube video thumbnail',
+        guidance: 'Keep the bottom-right corner free of important detail, because the video length is shown there.',
+        zones: [
+            { label: 'Video length', kind: 'covered', x: 0.84, y: 0.86, width: 0.14, height: 0.11 },
+            { label: 'Title safe', kind: 'safe', x: 0.05, y: 0.05, width: 0.9, height: 0.9 },
+        ],
+        smallView: { width: 168, context: "YouTube's sidebar of suggested videos" },
+    },
+    {
+        id: 'youtube-shorts',
+        name: 'YouTube Shorts',
+        size: { width: 1080, height: 1920 },
+        ratio: '9:16',
+        aspectRatio: AspectRatio.NineSixteen,
+        description: 'YouTube Shorts cover',
+        guidance: "Keep the subject and any text in the middle of the frame: the player's header covers the top, the title and captions cover the bottom and the action buttons run down the right side.",
+        zones: [
+            { label: 'Header', kind: 'covered', x: 0, y: 0, width: 1, height: 0.1 },
+            { label: 'Buttons', kind: 'covered', x: 0.84, y: 0.4, width: 0.16, height: 0.38 },
+            { label: 'Title and captions', kind: 'covered', x: 0, y: 0.78, width: 1, height: 0.22 },
+        ],
+        smallView: { width: 110, context: "the Shorts shelf on YouTube's home page" },
+    },
+    {
+        id: 'instagram-post',
+        name: 'Instagram post',
+        size: { width: 1080, height: 1350 },
+        ratio: '4:5',
+        aspectRatio: AspectRatio.OneOne,
+        description: 'Instagram feed post',
+        guidance: 'The profile grid shows a centred 3:4 crop, so keep the subject and any text away from the left and right edges.',
+        zones: [
+            { label: 'Profile grid', kind: 'safe', x: 0.031, y: 0, width: 0.938, height: 1 },
+        ],
+        smallView: { width: 130, context: 'a profile grid on a phone' },
+    },
+    {
+        id: 'instagram-story',
+        name: 'Instagram story',
+        size: { width: 1080, height: 1920 },
+        ratio: '9:16',
+        aspectRatio: AspectRatio.NineSixteen,
+        description: 'Instagram story',
+        guidance: 'Leave the top and bottom of the frame free of text, where the profile name and the reply bar sit.',
+        zones: [
+            { label: 'Profile and progress', kind: 'covered', x: 0, y: 0, width: 1, height: 0.13 },
+            { label: 'Reply bar', kind: 'covered', x: 0, y: 0.87, width: 1, height: 0.13 },
+        ],
+        smallView: { width: 120, context: 'story previews in the Explore grid and in shares' },
+    },
+    {
+        id: 'x-header',
+        name: 'X header',
+        size: { width: 1500, height: 500 },
+        ratio: '3:1',
+        aspectRatio: AspectRatio.SixteenNine,
+        description: 'X (Twitter) profile header banner',
+        guidance: 'It is a very wide strip: the profile photo covers the lower left and phones crop the top and bottom, so keep the subject and any text in the central band, right of centre.',
+        zones: [
+            { label: 'Profile photo', kind: 'covered', x: 0.02, y: 0.55, width: 0.2, height: 0.45 },
+            { label: 'Visible on phones', kind: 'safe', x: 0, y: 0.15, width: 1, height: 0.7 },
+        ],
+        smallView: { width: 390, context: 'a profile viewed on a phone' },
+    },
+    {
+        id: 'linkedin-banner',
+        name: 'LinkedIn banner',
+        size: { width: 1584, height: 396 },
+        ratio: '4:1',
+        aspectRatio: AspectRatio.SixteenNine,
+        description: 'LinkedIn profile banner',
+        guidance: 'It is a very wide strip and the profile photo covers the left of its lower half, so place the subject and any text on the right.',
+        zones: [
+            { label: 'Profile photo', kind: 'covered', x: 0.03, y: 0.4, width: 0.2, height: 0.6 },
+            { label: 'Content', kind: 'safe', x: 0.3, y: 0.1, width: 0.66, height: 0.8 },
+        ],
+        smallView: { width: 390, context: 'a profile viewed on a phone' },
+    },
+    {
+        id: 'podcast-cover',
+        name: 'Podcast cover',
+        size: { width: 3000, height: 3000 },
+        ratio: '1:1',
+        aspectRatio: AspectRatio.OneOne,
+        description: 'podcast cover art',
+        // Podcast directories ask for at least 1400×1400; the model's squares are about 1024.
+        upscaled: true,
+        guidance: 'Podcast apps show it as a tiny square, so use one bold subject, large simple shapes and strong contrast, with nothing important near the edges.',
+        zones: [
+            { label: 'Title safe', kind: 'safe', x: 0.1, y: 0.1, width: 0.8, height: 0.8 },
+        ],
+        smallView: { width: 80, context: "a podcast app's search results and episode lists" },
+    },
+];
+
+export const getThumbnailPlatform = (id: string): ThumbnailPlatform =>
+    THUMBNAIL_PLATFORMS.find(platform => platform.id === id)
+        ?? THUMBNAIL_PLATFORMS.find(platform => platform.id === DEFAULT_THUMBNAIL_PLATFORM_ID)!;
+
+// Tells the model which part of the frame it is asked for survives the crop to the platform's
+// exact ratio. Empty when the two ratios are the same.
+export const cropGuidance = (platform: ThumbnailPlatform): string => {
+    const generated = ratioValue(platform.aspectRatio);
+    const exported = platform.size.width / platform.size.height;
+    if (Math.abs(generated - exported) / exported < 0.01) return '';
+    const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+    if (exported > generated) {
+        const kept = generated / exported;
+        return `The ${platform.aspectRatio} image will be cropped to a ${platform.ratio} ${platform.description}: only the central horizontal band, ${percent(kept)} of the frame's height, is kept and the top and bottom ${percent((1 - kept) / 2)} are cut off. Put the subject and any text entirely inside that band and fill the top and bottom with background only.`;
+    }
+    const kept = exported / generated;
+    return `The ${platform.aspectRatio} image will be cropped to a ${platform.ratio} ${platform.description}: only the central vertical band, ${percent(kept)} of the frame's width, is kept and the left and right ${percent((1 - kept) / 2)} are cut off. Put the subject and any text entirely inside that band and fill the sides with background only.`;
+};
+
+// Every result is cropped and scaled to exactly the platform's size.
+export const platformFit = (platform: ThumbnailPlatform): ImageFitOptions => ({ mode: 'crop', targetSize: platform.size });
@@ -0,0 +1,398 @@
+import { loadImage, createCanvas } from './canvas';
+import { ImageSize } from './imageFit';
+import { ThumbnailPlatformId, THUMBNAIL_PLATFORMS } from './thumbnailPlatforms';
+
+// The thumbnail editor's document: a background picture with text, sticker and image layers
+// on top. Layers are positioned by their centre in canvas pixels and rotate around it, so the
+// same project renders identically in the editor preview and in the exported PNG. Projects
+// are plain JSON (images as data URLs) so they can be saved and opened again later.
+
+// The size of projects that don't say otherwise: a YouTube thumbnail.
+export const THUMBNAIL_WIDTH = 1280;
+export const THUMBNAIL_HEIGHT = 720;
+
+const PROJECT_VERSION = 1;
+
+export const THUMBNAIL_FONTS = ['Impact', 'Arial Black', 'Arial', 'Georgia', 'Trebuchet MS', 'Verdana', 'Courier New', 'Comic Sans MS'];
+
+export type StickerShape = 'arrow' | 'curved-arrow' | 'circle' | 'burst' | 'check' | 'cross';
+
+export const stickerShapes: StickerShape[] = ['arrow', 'curved-arrow', 'circle', 'burst', 'check', 'cross'];
+
+export const stickerShapeLabels: Record<StickerShape, string> = {
+    arrow: 'Arrow',
+    'curved-arrow': 'Curved arrow',
+    circle: 'Circle',
+    burst: 'Burst',
+    check: 'Tick',
+    cross: 'Cross',
+};
+
+interface LayerBase {
+    id: string;
+    // Centre of the layer in canvas pixels.
+    x: number;
+    y: number;
+    // Degrees clockwise.
+    rotation: number;
+}
+
+export interface TextLayer extends LayerBase {
+    kind: 'text';
+    // May span several lines.
+    text: string;
+    font: string;
+    // Font size in canvas pixels.
+    size: number;
+    bold: boolean;
+    fill: string;
+    stroke: string;
+    // Outline width in canvas pixels; 0 for none.
+    strokeWidth: number;
+    shadowColor: string;
+    // Shadow blur in canvas pixels; 0 for no shadow.
+    shadowBlur: number;
+}
+
+export interface StickerLayer extends LayerBase {
+    kind: 'sticker';
+    shape: StickerShape;
+    // Width and height of the sticker's square box in canvas pixels.
+    size: number;
+    color: string;
+}
+
+// A picture placed on top of the background, typically a transparent cut-out.
+export interface ImageLayer extends LayerBase {
+    kind: 'image';
+    // Data URL.
+    src: string;
+    width: number;
+    height: number;
+}
+
+export type ThumbnailLayer = TextLayer | StickerLayer | ImageLayer;
+
+export interface ThumbnailProject {
+    version: number;
+    width: number;
+    height: number;
+    // Where the thumbnail will be shown, for the safe-zone guides.
+    platform?: ThumbnailPlatformId;
+    // Data URL of the picture everything sits on; it is scaled to cover the canvas.
+    background: string;
+    // Bottom to top.
+    layers: ThumbnailLayer[];
+}
+
+export const createThumbnailProject = (
+    background: string,
+    size: ImageSize = { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT },
+    platform?: ThumbnailPlatformId
+): ThumbnailProject => ({
+    version: PROJECT_VERSION,
+    width: size.width,
+    height: size.height,
+    platform,
+    background,
+    layers: [],
+});
+
+const createLayerId = () => crypto.randomUUID();
+
+// How much bigger than a 1280×720 thumbnail the project is, so new layers and the editor's
+// controls start at sizes that suit it.
+export const projectScale = (project: ThumbnailProject) =>
+    Math.min(project.width, project.height) / THUMBNAIL_HEIGHT;
+
+export const createTextLayer = (project: ThumbnailProject): TextLayer => ({
+    id: createLayerId(),
+    kind: 'text',
+    x: project.width / 2,
+    y: project.height / 2,
+    rotation: 0,
+    text: 'YOUR TITLE',
+    font: THUMBNAIL_FONTS[0],
+    size: Math.round(120 * projectScale(project)),
+    bold: false,
+    fill: '#ffffff',
+    stroke: '#000000',
+    strokeWidth: Math.round(8 * projectScale(project)),
+    shadowColor: '#000000',
+    shadowBlur: Math.round(12 * projectScale(project)),
+});
+
+export const createStickerLayer = (project: ThumbnailProject, shape: StickerShape): StickerLayer => ({
+    id: createLayerId(),
+    kind: 'sticker',
+    x: project.width / 2,
+    y: project.height / 2,
+    rotation: 0,
+    shape,
+    size: Math.round(200 * projectScale(project)),
+    color: shape === 'check' ? '#22c55e' : shape === 'burst' ? '#facc15' : '#ef4444',
+});
+
+// Fits the picture within half the canvas height so a new cut-out never covers everything.
+export const createImageLayer = async (project: ThumbnailProject, src: string): Promise<ImageLayer> => {
+    const img = await loadImage(src);
+    const scale = Math.min(1, (project.height / 2) / img.height, (project.width / 2) / img.width);
+    return {
+        id: createLayerId(),
+        kind: 'image',
+        x: project.width / 2,
+        y: project.height / 2,
+        rotation: 0,
+        src,
+        width: Math.round(img.width * scale),
+        height: Math.round(img.height * scale),
+    };
+};
+
+// Decoded pictures by data URL, so redrawing while dragging doesn't decode them again.
+export type ProjectImages = Map<string, HTMLImageElement>;
+
+export const loadProjectImages = async (project: ThumbnailProject, known: ProjectImages): Promise<ProjectImages> => {
+    const sources = [project.background, ...project.layers.flatMap(layer => layer.kind === 'image' ? [layer.src] : [])];
+    const images: ProjectImages = new Map();
+    await Promise.all(sources.map(async src => {
+        images.set(src, known.get(src) ?? await loadImage(src));
+    }));
+    return images;
+};
+
+const fontFor = (layer: TextLayer) => `${layer.bold ? 'bold ' : ''}${layer.size}px "${layer.font}", sans-serif`;
+
+const lineHeight = (layer: TextLayer) => layer.size * 1.15;
+
+// Width and height of the layer before rotation. Text needs a context to measure with.
+export const layerSize = (ctx: CanvasRenderingContext2D, layer: ThumbnailLayer): { width: number; height: number } => {
+    switch (layer.kind) {
+        case 'text': {
+            ctx.font = fontFor(layer);
+            const lines = layer.text.split('\n');
+            const width = Math.max(...lines.map(line => ctx.measureText(line).width));
+            return { width: width + layer.strokeWidth * 2, height: lines.length * lineHeight(layer) + layer.strokeWidth * 2 };
+        }
+        case 'sticker':
+            return { width: layer.size, height: layer.size };
+        case 'image':
+            return { width: layer.width, height: layer.height };
+    }
+};
+
+// Topmost layer under the point, if any.
+export const hitTestLayer = (ctx: CanvasRenderingContext2D, project: ThumbnailProject, x: number, y: number): ThumbnailLayer | undefined =>
+    [...project.layers].reverse().find(layer => {
+        const { width, height } = layerSize(ctx, layer);
+        const angle = -layer.rotation * Math.PI / 180;
+        const dx = x - layer.x;
+        const dy = y - layer.y;
+        const localX = dx * Math.cos(angle) - dy * Math.sin(angle);
+        const localY = dx * Math.sin(angle) + dy * Math.cos(angle);
+        return Math.abs(localX) <= width / 2 && Math.abs(localY) <= height / 2;
+    });
+
+const drawText = (ctx: CanvasRenderingContext2D, layer: TextLayer) => {
+    ctx.font = fontFor(layer);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    const lines = layer.text.split('\n');
+    const top = -((lines.length - 1) * lineHeight(layer)) / 2;
+    const setShadow = (on: boolean) => {
+        ctx.shadowColor = on && layer.shadowBlur > 0 ? layer.shadowColor : 'transparent';
+        ctx.shadowBlur = on ? layer.shadowBlur : 0;
+        ctx.shadowOffsetY = on ? layer.shadowBlur / 3 : 0;
+    };
+    lines.forEach((line, index) => {
+        const y = top + index * lineHeight(layer);
+        // The shadow goes on whichever is drawn first, so it is cast once, behind everything.
+        setShadow(true);
+        if (layer.strokeWidth > 0) {
+            ctx.strokeStyle = layer.stroke;
+            // Half of a canvas stroke falls inside the glyph, under the fill.
+            ctx.lineWidth = layer.strokeWidth * 2;
+            ctx.strokeText(line, 0, y);
+            setShadow(false);
+        }
+        ctx.fillStyle = layer.fill;
+        ctx.fillText(line, 0, y);
+    });
+};
+
+// A filled arrowhead with its tip at (tipX, tipY), pointing along `angle`.
+const arrowHead = (ctx: CanvasRenderingContext2D, tipX: number, tipY: number, angle: number, length: number) => {
+    ctx.beginPath();
+    ctx.moveTo(tipX, tipY);
+    ctx.lineTo(tipX - length * Math.cos(angle - 0.5), tipY - length * Math.sin(angle - 0.5));
+    ctx.lineTo(tipX - length * Math.cos(angle + 0.5), tipY - length * Math.sin(angle + 0.5));
+    ctx.closePath();
+    ctx.fill();
+};
+
+// Stickers are drawn in a unit box centred on the origin and scaled to the layer's size.
+const drawSticker = (ctx: CanvasRenderingContext2D, layer: StickerLayer) => {
+    ctx.scale(layer.size, layer.size);
+    ctx.fillStyle = layer.color;
+    ctx.strokeStyle = layer.color;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    // A dark halo keeps the sticker readable on busy backgrounds.
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+    ctx.shadowBlur = layer.size * 0.04;
+    switch (layer.shape) {
+        case 'arrow':
+            ctx.lineWidth = 0.12;
+            ctx.beginPath();
+            ctx.moveTo(-0.45, 0);
+            ctx.lineTo(0.15, 0);
+            ctx.stroke();
+            arrowHead(ctx, 0.48, 0, 0, 0.4);
+            break;
+        case 'curved-arrow':
+            ctx.lineWidth = 0.1;
+            ctx.beginPath();
+            ctx.moveTo(-0.42, 0.35);
+            ctx.quadraticCurveTo(-0.35, -0.3, 0.22, -0.22);
+            ctx.stroke();
+            arrowHead(ctx, 0.46, -0.18, 0.15, 0.32);
+            break;
+        case 'circle':
+            ctx.lineWidth = 0.07;
+            ctx.beginPath();
+            ctx.ellipse(0, 0, 0.45, 0.45, 0, 0, Math.PI * 2);
+            ctx.stroke();
+            break;
+        case 'burst': {
+            const points = 12;
+            ctx.beginPath();
+            for (let i = 0; i < points * 2; i++) {
+                const radius = i % 2 === 0 ? 0.5 : 0.32;
+                const angle = (i / (points * 2)) * Math.PI * 2;
+                ctx.lineTo(radius * Math.cos(angle), radius * Math.sin(angle));
+            }
+            ctx.closePath();
+            ctx.fill();
+            break;
+        }
+        case 'check':
+            ctx.lineWidth = 0.14;
+            ctx.beginPath();
+            ctx.moveTo(-0.38, 0.02);
+            ctx.lineTo(-0.1, 0.3);
+            ctx.lineTo(0.4, -0.3);
+            ctx.stroke();
+            break;
+        case 'cross':
+            ctx.lineWidth = 0.14;
+            ctx.beginPath();
+            ctx.moveTo(-0.32, -0.32);
+            ctx.lineTo(0.32, 0.32);
+            ctx.moveTo(0.32, -0.32);
+            ctx.lineTo(-0.32, 0.32);
+            ctx.stroke();
+            break;
+    }
+};
+
+// Draws the whole project onto a context the size of the project. `images` must hold every
+// picture the project uses (see `loadProjectImages`).
+export const renderThumbnail = (ctx: CanvasRenderingContext2D, project: ThumbnailProject, images: ProjectImages) => {
+    const { width, height } = project;
+    ctx.clearRect(0, 0, width, height);
+    const background = images.get(project.background);
+    if (background) {
+        const scale = Math.max(width / background.width, height / background.height);
+        const drawWidth = background.width * scale;
+        const drawHeight = background.height * scale;
+        ctx.drawImage(background, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+    }
+    for (const layer of project.layers) {
+        ctx.save();
+        ctx.translate(layer.x, layer.y);
+        ctx.rotate(layer.rotation * Math.PI / 180);
+        if (layer.kind === 'text') {
+            drawText(ctx, layer);
+        } else if (layer.kind === 'sticker') {
+            drawSticker(ctx, layer);
+        } else {
+            const image = images.get(layer.src);
+            if (image) ctx.drawImage(image, -layer.width / 2, -layer.height / 2, layer.width, layer.height);
+        }
+        ctx.restore();
+    }
+};
+
+// The flattened thumbnail as a PNG data URL at the project's exact size.
+export const exportThumbnailPng = async (project: ThumbnailProject): Promise<string> => {
+    const images = await loadProjectImages(project, new Map());
+    const { canvas, ctx } = createCanvas(project.width, project.height);
+    renderThumbnail(ctx, project, images);
+    return canvas.toDataURL('image/png');
+};
+
+export const exportThumbnailProject = (project: ThumbnailProject): Blob =>
+    new Blob([JSON.stringify(project)], { type: 'application/json' });
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isDataUrl = (value: unknown): value is string => isString(value) && value.startsWith('data:image/');
+
+// Larger canvases than this fail or exhaust memory in some browsers.
+const MAX_PROJECT_SIZE = 4096;
+
+const isProjectSize = (value: unknown): value is number =>
+    Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_PROJECT_SIZE;
+
+const isLayer = (value: unknown): value is ThumbnailLayer => {
+    const layer = value as ThumbnailLayer;
+    if (!layer || typeof layer !== 'object' || !isString(layer.id) || !isNumber(layer.x) || !isNumber(layer.y) || !isNumber(layer.rotation)) {
+        return false;
+    }
+    switch (layer.kind) {
+        case 'text':
+            return isString(layer.text) && isString(layer.font) && isNumber(layer.size) && typeof layer.bold === 'boolean'
+                && isString(layer.fill) && isString(layer.stroke) && isNumber(layer.strokeWidth)
+                && isString(layer.shadowColor) && isNumber(layer.shadowBlur);
+        case 'sticker':
+            return stickerShapes.includes(layer.shape) && isNumber(layer.size) && isString(layer.color);
+        case 'image':
+            return isDataUrl(layer.src) && isNumber(layer.width) && isNumber(layer.height);
+        default:
+            return false;
+    }
+};
+
+// Reads a file written by `exportThumbnailProject`. Throws an Error with a message fit to show
+// the user when the file can't be used.
+export const parseThumbnailProject = (text: string): ThumbnailProject => {
+    let data: ThumbnailProject;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!data || typeof data !== 'object' || !isDataUrl(data.background) || !Array.isArray(data.layers)) {
+        throw new Error('The file is not a thumbnail project.');
+    }
+    if (!isNumber(data.version) || data.version > PROJECT_VERSION) {
+        throw new Error('This project was saved by a newer version of the app.');
+    }
+    // A project without a size is taken to be the default size.
+    if ((data.width !== undefined && !isProjectSize(data.width)) || (data.height !== undefined && !isProjectSize(data.height))) {
+        throw new Error(`The project's size must be whole pixels between 1 and ${MAX_PROJECT_SIZE}.`);
+    }
+    const badLayer = data.layers.findIndex(layer => !isLayer(layer));
+    if (badLayer !== -1) {
+        throw new Error(`Layer ${badLayer + 1} of the project is damaged or of an unknown kind.`);
+    }
+    return {
+        version: PROJECT_VERSION,
+        width: data.width ?? THUMBNAIL_WIDTH,
+        height: data.height ?? THUMBNAIL_HEIGHT,
+        platform: THUMBNAIL_PLATFORMS.some(platform => platform.id === data.platform) ? data.platform : undefined,
+        background: data.background,
+        layers: data.layers,
+    };
+};
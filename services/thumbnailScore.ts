@@ -0,0 +1,30 @@
+import { UploadedImagePayload, ThumbnailScore } from './providers';
+import { loadImage, createCanvas } from './canvas';
+
+// The parts of a thumbnail critique that are scored, in the order they are shown.
+export type ScoreCriterion = Exclude<keyof ThumbnailScore, 'overall' | 'suggestions'>;
+
+export const scoreCriteria: ScoreCriterion[] = ['readability', 'focalPoint', 'contrast', 'emotionalHook', 'textLegibility'];
+
+export const scoreCriterionLabels: Record<ScoreCriterion, string> = {
+    readability: 'Readable when small',
+    focalPoint: 'Focal point',
+    contrast: 'Contrast',
+    emotionalHook: 'Emotional hook',
+    textLegibility: 'Text legibility',
+};
+
+// The thumbnail scaled down to `width`, the size its platform shows it small, so the model
+// sees what viewers actually see there.
+export const createSmallPreview = async (image: UploadedImagePayload, width: number): Promise<UploadedImagePayload> => {
+    const img = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+    const height = Math.round(img.height * width / img.width);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+    return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+// 1 for the best overall score; ties share a rank.
+export const rankScores = (scores: ThumbnailScore[]): number[] =>
+    scores.map(score => 1 + scores.filter(other => other.overall > score.overall).length);
@@ -0,0 +1,68 @@
+import { crc32, textToBytes } from './binary';
+
+// Minimal ZIP writer for exporting results. Images are already compressed, so entries are
+// stored rather than deflated, which keeps this small and dependency-free.
+
+export interface ZipFile {
+    name: string;
+    data: Uint8Array<ArrayBuffer>;
+}
+
+// MS-DOS date and time, as ZIP headers store them.
+const dosDateTime = (date: Date) => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (files: ZipFile[]): Blob => {
+    const { time, date } = dosDateTime(new Date());
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+    const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = textToBytes(file.name);
+        const crc = crc32(file.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true); // local file header signature
+        local.setUint16(4, 20, true); // version needed to extract
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, file.data.length, true);
+        local.setUint32(22, file.data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true); // extra field length
+        parts.push(new Uint8Array(local.buffer), name, file.data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true); // central directory header signature
+        central.setUint16(4, 20, true); // version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, file.data.length, true);
+        central.setUint32(24, file.data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true); // offset of the local header
+        centralDirectory.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + file.data.length;
+    }
+
+    const centralSize = centralDirectory.reduce((size, part) => size + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // end of central directory signature
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
@@ -1,15 +1,13 @@
+import { GenerationError } from './services/errors';
+import { GenerationMetadata } from './services/imageMetadata';
+
 
 export enum View {
   Assistant = 'Assistant',
   Images = 'Images',
   Voice = 'Voice',
   Camera = 'Camera',
-}
-
-export enum ImageStyle {
-  Ghibli = 'Ghibli',
-  Realistic = 'Realistic',
-  ThreeD = '3D',
+  History = 'History',
 }
 
 export enum AspectRatio {
@@ -36,3 +34,10 @@ export const voices: VoiceOption[] = [
   { id: 'Fenrir', name: 'Voice 4', gender: 'Male', type: 'prebuilt' },
   { id: 'Kore', name: 'Voice 5', gender: 'Female', type: 'prebuilt' },
 ];
+
+// One cell of a generator's results grid, filled in as each request settles. `metadata` is
+// embedded into the file on download.
+export type ImageSlot =
+  | { status: 'pending' }
+  | { status: 'done'; image: string; metadata?: GenerationMetadata }
+  | { status: 'failed'; error: GenerationError };
@@ -5,10 +5,23 @@ import react from '@vitejs/plugin-react';
 // VITE_API_KEY with your Gemini API key. Vite will replace `process.env.API_KEY`
 // in the code with this value during the build process.
 // Read more: https://vitejs.dev/guide/env-and-mode.html
+//
+// Set VITE_API_MODE=proxy to keep the key out of the bundle entirely. The app then talks to
+// the companion server (`npm run server`) at VITE_PROXY_URL, which defaults to `/genai`.
+// In development, Vite forwards `/genai` to that server.
+
+const apiMode = process.env.VITE_API_MODE === 'proxy' ? 'proxy' : 'direct';
 
 export default defineConfig({
   plugins: [react()],
   define: {
-    'process.env.API_KEY': JSON.stringify(process.env.VITE_API_KEY),
+    'process.env.API_KEY': JSON.stringify(apiMode === 'proxy' ? '' : process.env.VITE_API_KEY),
+    'process.env.API_MODE': JSON.stringify(apiMode),
+    'process.env.PROXY_URL': JSON.stringify(process.env.VITE_PROXY_URL || '/genai'),
+  },
+  server: {
+    proxy: {
+      '/genai': `http://localhost:${process.env.PROXY_PORT || 8787}`,
+    },
   },
 });